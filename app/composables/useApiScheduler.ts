@@ -0,0 +1,35 @@
+// composables/useApiScheduler.ts
+import { createApiScheduler, type ApiScheduler } from "../utils/scheduler";
+
+// Một scheduler cho mỗi API, dùng chung cho mọi composable / job đang chạy
+// để tổng số request ra ngoài không vượt giới hạn khi chạy song song
+let schedulers: { youtube: ApiScheduler; gemini: ApiScheduler } | null = null;
+
+export const useApiScheduler = () => {
+  if (!schedulers) {
+    schedulers = {
+      // YouTube Data API: giới hạn theo quota ngày, tốc độ khá thoáng
+      youtube: createApiScheduler({
+        name: "YouTube",
+        ratePerSecond: 10,
+        burst: 10,
+        initialConcurrency: 4,
+        maxConcurrency: 10,
+        maxRetries: 3,
+        baseDelay: 1000,
+      }),
+      // Gemini free tier ~15 request/phút mỗi key, batch lớn nên chạy ít
+      gemini: createApiScheduler({
+        name: "Gemini",
+        ratePerSecond: 0.25,
+        burst: 2,
+        initialConcurrency: 1,
+        maxConcurrency: 4,
+        maxRetries: 10,
+        baseDelay: 2000,
+      }),
+    };
+  }
+
+  return schedulers;
+};
@@ -0,0 +1,164 @@
+// composables/useClassifierProject.ts
+import type {
+  ClassifierProject,
+  ClassifierTask,
+  NaiveBayesModel,
+} from "../types/classifier";
+import type { YouTubeComment } from "../types/comment";
+import {
+  createEmptyProject,
+  getTrainingExamples,
+  trainNaiveBayes,
+} from "../utils/classifier";
+import { stripHtmlTags } from "../utils/format";
+import { idbDelete, idbGet, idbKeys, idbSet } from "../utils/idb";
+
+// Project đang chọn nhớ trong localStorage, nhãn + model + bộ chủ đề lưu
+// IndexedDB (store "projects", key = tên project)
+const STORAGE_KEY = "yt-cmt-filter:project";
+const DEFAULT_PROJECT = "Mặc định";
+
+// Dùng chung giữa bảng comment, panel mô hình và trang chính
+const project = ref<ClassifierProject>(createEmptyProject(DEFAULT_PROJECT));
+const projectNames = ref<string[]>([DEFAULT_PROJECT]);
+let loaded = false;
+
+const readProject = async (name: string): Promise<ClassifierProject> => {
+  try {
+    return (
+      (await idbGet<ClassifierProject>("projects", name)) ||
+      createEmptyProject(name)
+    );
+  } catch (error) {
+    console.warn("Không thể đọc project:", error);
+    return createEmptyProject(name);
+  }
+};
+
+// Lỗi lưu trữ không được làm mất nhãn đang có trên trang
+const saveProject = async () => {
+  project.value = { ...project.value, updatedAt: new Date().toISOString() };
+  try {
+    // Bỏ reactive proxy trước khi structured clone vào IndexedDB
+    await idbSet(
+      "projects",
+      project.value.name,
+      JSON.parse(JSON.stringify(project.value)) as ClassifierProject
+    );
+  } catch (error) {
+    console.warn("Không thể lưu project:", error);
+  }
+};
+
+const refreshProjectNames = async () => {
+  try {
+    const names = await idbKeys("projects");
+    projectNames.value = Array.from(
+      new Set([DEFAULT_PROJECT, project.value.name, ...names])
+    ).sort((a, b) => a.localeCompare(b));
+  } catch (error) {
+    console.warn("Không thể đọc danh sách project:", error);
+  }
+};
+
+export const useClassifierProject = () => {
+  if (!loaded && typeof localStorage !== "undefined") {
+    loaded = true;
+    const name = localStorage.getItem(STORAGE_KEY) || DEFAULT_PROJECT;
+    readProject(name).then((value) => {
+      project.value = value;
+      refreshProjectNames();
+    });
+  }
+
+  // Project chưa có trong IndexedDB → tạo mới rỗng
+  const selectProject = async (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    project.value = await readProject(trimmed);
+    localStorage.setItem(STORAGE_KEY, trimmed);
+    await saveProject();
+    await refreshProjectNames();
+  };
+
+  // Xoá project mặc định = xoá trắng nhãn và model của nó
+  const deleteProject = async () => {
+    const { name } = project.value;
+    try {
+      await idbDelete("projects", name);
+    } catch (error) {
+      console.warn("Không thể xoá project:", error);
+    }
+    project.value = await readProject(DEFAULT_PROJECT);
+    localStorage.setItem(STORAGE_KEY, DEFAULT_PROJECT);
+    await refreshProjectNames();
+  };
+
+  // null → bỏ nhãn của task, comment hết nhãn thì xoá khỏi project
+  const setLabel = (
+    comment: YouTubeComment,
+    task: ClassifierTask,
+    value: boolean | null
+  ) => {
+    const { [comment.id]: current, ...rest } = project.value.labels;
+    const { [task]: _previous, ...otherTasks } = current?.labels || {};
+    const labels =
+      value === null ? otherTasks : { ...otherTasks, [task]: value };
+
+    project.value = {
+      ...project.value,
+      labels:
+        Object.keys(labels).length > 0
+          ? {
+              ...rest,
+              [comment.id]: {
+                text: stripHtmlTags(comment.content),
+                labels,
+                labeledAt: new Date().toISOString(),
+              },
+            }
+          : rest,
+    };
+    saveProject();
+  };
+
+  // Train lại từ toàn bộ nhãn của task - lỗi (thiếu nhãn) ném ra cho UI
+  const trainModel = async (task: ClassifierTask): Promise<NaiveBayesModel> => {
+    const model = trainNaiveBayes(
+      task,
+      getTrainingExamples(project.value.labels, task)
+    );
+    project.value = {
+      ...project.value,
+      models: { ...project.value.models, [task]: model },
+    };
+    await saveProject();
+    return model;
+  };
+
+  const removeModel = async (task: ClassifierTask) => {
+    const { [task]: _model, ...models } = project.value.models;
+    project.value = { ...project.value, models };
+    await saveProject();
+  };
+
+  // Dữ liệu khác gắn với project (bộ chủ đề...) - lưu cùng nhãn + model
+  const updateProject = async (
+    patch: Partial<Omit<ClassifierProject, "name" | "updatedAt">>
+  ) => {
+    project.value = { ...project.value, ...patch };
+    await saveProject();
+  };
+
+  return {
+    project,
+    projectNames,
+    selectProject,
+    deleteProject,
+    setLabel,
+    trainModel,
+    removeModel,
+    updateProject,
+  };
+};
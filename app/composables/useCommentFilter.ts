@@ -1,5 +1,28 @@
 // composables/useCommentFilter.ts
-import type { YouTubeComment, FilterOptions } from "../types/comment";
+import type {
+  YouTubeComment,
+  FilterAudit,
+  FilterOptions,
+  FilterOverride,
+  FilterReason,
+  RemovedComment,
+} from "../types/comment";
+import { CLASSIFIER_CLASS_LABELS, CLASSIFIER_TASKS } from "../utils/classifier";
+import {
+  DEFAULT_AD_KEYWORDS,
+  DEFAULT_GENERIC_MIN_WORDS,
+  getRuleRejections,
+} from "../utils/filterRules";
+import { stripHtmlTags } from "../utils/format";
+import { LANGUAGE_LABELS } from "../utils/language";
+import { containsNormalized } from "../utils/normalize";
+import { SPAM_SIGNAL_LABELS } from "../utils/spamDetection";
+import { findToxicTerms } from "../utils/toxicity";
+
+// Link / tên miền: chỉ nhận TLD phổ biến, tránh coi câu viết dính dấu chấm
+// ("xong.Mai", "v.v...") hay số thập phân là link
+const URL_PATTERN =
+  /https?:\/\/\S+|www\.\S+|(?<![\p{L}\p{N}@.-])[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|info|biz|vn|io|co|me|ly|gl|gg|tv|cc|to|xyz|shop|store|online|site|link|app|dev|top|club|asia)(?![\p{L}\p{N}-])(?:\/\S*)?/iu;
 
 export const useCommentFilter = () => {
   // Hàm kiểm tra comment có chứa icon/emoji
@@ -15,39 +38,37 @@ export const useCommentFilter = () => {
     return !hasLetter;
   };
 
-  // Hàm kiểm tra quảng cáo/link
-  const isAdvertisement = (text: string): boolean => {
-    const lowerText = text.toLowerCase();
+  // Tìm dấu hiệu quảng cáo: trả về link / từ khoá khớp, null nếu không có
+  // Từ khoá quảng cáo cấu hình trong bộ lọc (FilterOptions.adKeywords)
+  const findAdvertisement = (
+    text: string,
+    adKeywords: string[] = DEFAULT_AD_KEYWORDS
+  ): string | null => {
+    const plain = stripHtmlTags(text);
 
     // Phát hiện URL
-    const hasUrl = /https?:\/\/|www\./i.test(text) || /\.[a-z]{2,}/i.test(text);
-
-    // Từ khóa quảng cáo
-    const adKeywords = [
-      "xem tại",
-      "link",
-      "tải",
-      "download",
-      "freeship",
-      "giảm giá",
-      "khuyến mãi",
-      "inbox",
-      "zalo",
-      "mua ngay",
-      "đặt hàng",
-      "liên hệ",
-      "sale off",
-    ];
-
-    const hasAdKeyword = adKeywords.some((keyword) =>
-      lowerText.includes(keyword)
-    );
+    const url = plain.match(URL_PATTERN);
+    if (url) return url[0];
 
-    return hasUrl || hasAdKeyword;
+    // Khớp nguyên từ trên text đã chuẩn hoá: bắt được "giam gia",
+    // "g.i.ả.m g.i.á", "zal0"...
+    const keyword = adKeywords.find(
+      (keyword) => keyword && containsNormalized(plain, keyword, true)
+    );
+    return keyword ? `"${keyword}"` : null;
   };
 
+  // Hàm kiểm tra quảng cáo/link
+  const isAdvertisement = (
+    text: string,
+    adKeywords: string[] = DEFAULT_AD_KEYWORDS
+  ): boolean => findAdvertisement(text, adKeywords) !== null;
+
   // Hàm kiểm tra comment ngắn/đơn điệu
-  const isGenericComment = (text: string): boolean => {
+  const isGenericComment = (
+    text: string,
+    minWords: number = DEFAULT_GENERIC_MIN_WORDS
+  ): boolean => {
     // Bỏ toàn bộ thẻ HTML trước
     const stripped = text
       .replace(/<[^>]*>/g, "")
@@ -59,8 +80,8 @@ export const useCommentFilter = () => {
     // Tách thành cụm từ (theo khoảng trắng)
     const phrases = stripped.split(/\s+/);
 
-    // Nếu ít hơn 6 từ => generic
-    if (phrases.length < 6) {
+    // Nếu ít hơn minWords từ => generic
+    if (phrases.length < minWords) {
       return true;
     }
 
@@ -76,68 +97,242 @@ export const useCommentFilter = () => {
     return false; // Còn lại thì không generic
   };
 
-  // Hàm kiểm tra một comment có pass filter không
-  const shouldKeepComment = (
+  // Toàn bộ lý do một comment bị loại (rỗng = pass filter)
+  const auditComment = (
     comment: YouTubeComment,
     options: FilterOptions
-  ): boolean => {
+  ): FilterReason[] => {
+    const reasons: FilterReason[] = [];
+
+    // Incremental crawl: comment cha cũ vẫn được giữ nếu có reply mới (xem
+    // auditComments) để không mất ngữ cảnh
+    if (options.onlyNew && !comment.isNew) {
+      reasons.push({ code: "onlyNew" });
+    }
+
+    // Allow-list ngôn ngữ áp dụng như nhau cho comment cha và replies
+    if (
+      options.languages.length > 0 &&
+      !options.languages.includes(comment.language)
+    ) {
+      reasons.push({
+        code: "language",
+        detail: LANGUAGE_LABELS[comment.language] || comment.language,
+      });
+    }
+
     if (options.removeEmojiOnly && hasOnlyEmoji(comment.content)) {
-      return false;
+      reasons.push({ code: "emojiOnly" });
+    }
+
+    if (options.removeAdvertisements) {
+      const match = findAdvertisement(comment.content, options.adKeywords);
+      if (match) reasons.push({ code: "advertisement", detail: match });
+    }
+
+    if (
+      options.removeGenericComments &&
+      isGenericComment(comment.content, options.genericMinWords)
+    ) {
+      reasons.push({ code: "generic" });
+    }
+
+    // Điểm spam tính sẵn sau khi crawl (utils/spamDetection.ts)
+    if (
+      options.removeSpam &&
+      (comment.spamScore ?? 0) >= options.spamThreshold
+    ) {
+      reasons.push({
+        code: "spam",
+        detail: (comment.spamSignals || [])
+          .map((signal) => SPAM_SIGNAL_LABELS[signal])
+          .join(", "),
+      });
+    }
+
+    // Mode "mask" không loại - che từ khi hiển thị / export (utils/toxicity.ts)
+    if (options.toxicityMode === "remove") {
+      const matches = findToxicTerms(
+        stripHtmlTags(comment.content),
+        options.toxicLexicon,
+        options.toxicitySeverity
+      );
+      if (matches.length > 0) {
+        reasons.push({
+          code: "toxic",
+          detail: Array.from(new Set(matches.map((m) => m.text))).join(", "),
+        });
+      }
     }
 
-    if (options.removeAdvertisements && isAdvertisement(comment.content)) {
-      return false;
+    // Xác suất tính sẵn bởi mô hình tự train của project (utils/classifier.ts)
+    if (options.removeByModel && comment.modelScores) {
+      for (const task of CLASSIFIER_TASKS) {
+        const score = comment.modelScores[task];
+        if (score !== undefined && score >= options.modelThreshold) {
+          reasons.push({
+            code: "model",
+            detail: `${CLASSIFIER_CLASS_LABELS[task].positive} ${Math.round(
+              score * 100
+            )}%`,
+          });
+        }
+      }
     }
 
-    if (options.removeGenericComments && isGenericComment(comment.content)) {
-      return false;
+    // Rule tự định nghĩa (include / exclude)
+    for (const rule of getRuleRejections(comment, options.rules)) {
+      reasons.push({ code: "rule", detail: rule });
     }
 
-    return true;
+    return reasons;
   };
 
-  // Hàm lọc comments (bao gồm cả replies)
-  const filterComments = (
+  // Ghi đè thủ công thắng mọi bộ lọc: "keep" → giữ, "remove" → loại
+  const resolveComment = (
+    comment: YouTubeComment,
+    options: FilterOptions,
+    overrides: Record<string, FilterOverride>
+  ): { comment: YouTubeComment; reasons: FilterReason[] } => {
+    const override = overrides[comment.id];
+    if (override === "keep") {
+      return { comment: { ...comment, override }, reasons: [] };
+    }
+    if (override === "remove") {
+      return {
+        comment: { ...comment, override },
+        reasons: [{ code: "manual" }],
+      };
+    }
+    return { comment, reasons: auditComment(comment, options) };
+  };
+
+  // Lọc comments (bao gồm cả replies), giữ lại danh sách bị loại kèm lý do
+  // Comment cha và replies lọc độc lập, options.threadPolicy quyết định số
+  // phận thread khi kết quả khác nhau. replyCount giữ số gốc từ API, số
+  // replies còn lại ghi vào filteredReplyCount
+  const auditComments = (
     comments: YouTubeComment[],
-    options: FilterOptions
-  ): YouTubeComment[] => {
-    const filtered: YouTubeComment[] = [];
+    options: FilterOptions,
+    overrides: Record<string, FilterOverride> = {}
+  ): FilterAudit => {
+    const kept: YouTubeComment[] = [];
+    const removed: RemovedComment[] = [];
+
+    const withReplies = (
+      parent: YouTubeComment,
+      replies: YouTubeComment[],
+      extra: Partial<YouTubeComment> = {}
+    ): YouTubeComment => ({
+      ...parent,
+      ...extra,
+      replies,
+      filteredReplyCount: replies.length,
+    });
 
     for (const comment of comments) {
-      // Lọc replies trước
-      const filteredReplies = comment.replies
-        ? comment.replies.filter((reply) => shouldKeepComment(reply, options))
-        : [];
-
-      // Kiểm tra comment cha có pass filter không
-      const keepParent = shouldKeepComment(comment, options);
-
-      // Nếu comment cha pass filter, trả về với replies đã lọc
-      if (keepParent) {
-        filtered.push({
-          ...comment,
-          replies: filteredReplies,
-          replyCount: filteredReplies.length,
+      const parent = resolveComment(comment, options, overrides);
+      const replies = (comment.replies || []).map((reply) =>
+        resolveComment(reply, options, overrides)
+      );
+      const passed = replies.filter((r) => r.reasons.length === 0);
+      const failed = replies.filter((r) => r.reasons.length > 0);
+      const parentPasses = parent.reasons.length === 0;
+
+      const removeReplies = (items: typeof replies) =>
+        items.forEach((item) =>
+          removed.push({ ...item, parentAuthor: comment.author })
+        );
+      const removeParent = () =>
+        removed.push({
+          comment: { ...parent.comment, replies: [] },
+          reasons: parent.reasons,
         });
+
+      // Cha đã bị dedupe loại (chỉ còn làm ngữ cảnh) → không lọc lại cha,
+      // thread còn hiện khi có reply pass
+      if (comment.isContext) {
+        removeReplies(failed);
+        if (passed.length > 0) {
+          kept.push(withReplies(parent.comment, passed.map((r) => r.comment)));
+        }
+        continue;
       }
-      // Nếu comment cha không pass nhưng có replies pass filter
-      else if (filteredReplies.length > 0) {
-        filtered.push({
-          ...comment,
-          replies: filteredReplies,
-          replyCount: filteredReplies.length,
-        });
+
+      // Thread là một khối: cha hoặc một reply pass → giữ nguyên cả thread
+      // (trừ reply bị loại thủ công)
+      if (options.threadPolicy === "keepThread") {
+        if (parentPasses || passed.length > 0) {
+          const manual = failed.filter((r) =>
+            r.reasons.some((reason) => reason.code === "manual")
+          );
+          removeReplies(manual);
+          kept.push(
+            withReplies(
+              parent.comment,
+              replies
+                .filter((r) => !manual.includes(r))
+                .map((r) => r.comment)
+            )
+          );
+        } else {
+          removeParent();
+          removeReplies(failed);
+        }
+        continue;
+      }
+
+      removeReplies(failed);
+      const passedReplies = passed.map((r) => r.comment);
+
+      if (parentPasses) {
+        kept.push(withReplies(parent.comment, passedReplies));
+        continue;
+      }
+
+      removeParent();
+      if (passedReplies.length === 0) continue;
+
+      switch (options.threadPolicy) {
+        case "dropThread":
+          // Replies pass filter vẫn bị loại theo comment cha
+          passedReplies.forEach((reply) =>
+            removed.push({
+              comment: reply,
+              reasons: [{ code: "thread" }],
+              parentAuthor: comment.author,
+            })
+          );
+          break;
+        case "promoteReplies":
+          passedReplies.forEach((reply) =>
+            kept.push({ ...reply, isPromoted: true, replies: [] })
+          );
+          break;
+        default:
+          // "parentContext": comment cha chỉ hiện làm ngữ cảnh cho replies,
+          // vẫn nằm trong danh sách bị loại
+          kept.push(
+            withReplies(parent.comment, passedReplies, { isContext: true })
+          );
       }
     }
 
-    return filtered;
+    return { kept, removed };
   };
 
+  // Hàm lọc comments (bao gồm cả replies)
+  const filterComments = (
+    comments: YouTubeComment[],
+    options: FilterOptions,
+    overrides: Record<string, FilterOverride> = {}
+  ): YouTubeComment[] => auditComments(comments, options, overrides).kept;
+
   // Hàm đếm tổng số comment (bao gồm cả replies)
   const countTotalComments = (comments: YouTubeComment[]): number => {
     return comments.reduce((total, comment) => {
-      // Đếm comment cha
-      let count = 1;
+      // Đếm comment cha (comment cha chỉ làm ngữ cảnh không tính)
+      let count = comment.isContext ? 0 : 1;
       // Đếm replies
       if (comment.replies && comment.replies.length > 0) {
         count += comment.replies.length;
@@ -149,7 +344,10 @@ export const useCommentFilter = () => {
   return {
     hasOnlyEmoji,
     isAdvertisement,
+    findAdvertisement,
     isGenericComment,
+    auditComment,
+    auditComments,
     filterComments,
     countTotalComments,
   };
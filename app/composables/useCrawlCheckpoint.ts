@@ -0,0 +1,123 @@
+// composables/useCrawlCheckpoint.ts
+import type {
+  CrawlCheckpoint,
+  CrawlJob,
+  CrawlParams,
+  CrawlResumeState,
+} from "../types/crawl";
+import { idbDelete, idbGet, idbSet } from "../utils/idb";
+
+// Job được lưu chung store với checkpoint, key có prefix để không trùng videoId
+const jobKey = (input: string) =>
+  `job:${input.trim().split(/\s+/).join("\n")}`;
+
+// Checkpoint theo video + tham số crawl: crawl lại cùng video với scope /
+// chế độ khác không resume nhầm từ tập kết quả của lần trước
+const checkpointKey = (videoId: string, { incremental, scope }: CrawlParams) =>
+  [
+    videoId,
+    incremental ? "incremental" : "full",
+    scope?.publishedAfter ?? "",
+    scope?.publishedBefore ?? "",
+    scope?.minLikes ?? "",
+    scope?.searchTerms ?? "",
+  ].join("|");
+
+export const useCrawlCheckpoint = () => {
+  // Lấy checkpoint gần nhất của video (nếu có)
+  const loadCheckpoint = async (
+    videoId: string,
+    params: CrawlParams
+  ): Promise<CrawlCheckpoint | null> => {
+    try {
+      return (
+        (await idbGet<CrawlCheckpoint>(
+          "checkpoints",
+          checkpointKey(videoId, params)
+        )) || null
+      );
+    } catch (error) {
+      console.warn("Không thể đọc checkpoint:", error);
+      return null;
+    }
+  };
+
+  // Lưu checkpoint - lỗi lưu trữ không được làm hỏng quá trình crawl
+  const saveCheckpoint = async (
+    checkpoint: CrawlCheckpoint,
+    params: CrawlParams
+  ) => {
+    try {
+      await idbSet("checkpoints", checkpointKey(checkpoint.videoId, params), {
+        ...checkpoint,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.warn("Không thể lưu checkpoint:", error);
+    }
+  };
+
+  const clearCheckpoint = async (videoId: string, params: CrawlParams) => {
+    try {
+      await idbDelete("checkpoints", checkpointKey(videoId, params));
+    } catch (error) {
+      console.warn("Không thể xoá checkpoint:", error);
+    }
+  };
+
+  const loadJob = async (input: string): Promise<CrawlJob | null> => {
+    try {
+      return (await idbGet<CrawlJob>("checkpoints", jobKey(input))) || null;
+    } catch (error) {
+      console.warn("Không thể đọc job crawl:", error);
+      return null;
+    }
+  };
+
+  const saveJob = async (job: CrawlJob) => {
+    try {
+      await idbSet("checkpoints", jobKey(job.input), {
+        ...job,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.warn("Không thể lưu job crawl:", error);
+    }
+  };
+
+  // Xoá job cùng checkpoint của mọi video trong job
+  const clearJob = async (job: CrawlJob) => {
+    await Promise.all(
+      job.videoIds.map((videoId) => clearCheckpoint(videoId, job))
+    );
+    try {
+      await idbDelete("checkpoints", jobKey(job.input));
+    } catch (error) {
+      console.warn("Không thể xoá job crawl:", error);
+    }
+  };
+
+  // Tổng hợp tiến trình đã lưu của input: job + checkpoint từng video
+  const loadResumeState = async (
+    input: string
+  ): Promise<CrawlResumeState | null> => {
+    const job = await loadJob(input);
+    if (!job) return null;
+
+    const checkpoints = (
+      await Promise.all(job.videoIds.map((id) => loadCheckpoint(id, job)))
+    ).filter((c): c is CrawlCheckpoint => c !== null);
+
+    return checkpoints.length > 0 ? { job, checkpoints } : null;
+  };
+
+  return {
+    loadCheckpoint,
+    saveCheckpoint,
+    clearCheckpoint,
+    loadJob,
+    saveJob,
+    clearJob,
+    loadResumeState,
+  };
+};
@@ -0,0 +1,35 @@
+// composables/useCrawlSnapshot.ts
+import type { CrawlSnapshot } from "../types/crawl";
+import type { YouTubeComment } from "../types/comment";
+import { idbGet, idbSet } from "../utils/idb";
+
+export const useCrawlSnapshot = () => {
+  const loadSnapshot = async (
+    videoId: string
+  ): Promise<CrawlSnapshot | null> => {
+    try {
+      return (await idbGet<CrawlSnapshot>("snapshots", videoId)) || null;
+    } catch (error) {
+      console.warn("Không thể đọc snapshot:", error);
+      return null;
+    }
+  };
+
+  // Ghi đè snapshot sau mỗi lần crawl video thành công
+  const saveSnapshot = async (videoId: string, comments: YouTubeComment[]) => {
+    try {
+      await idbSet<CrawlSnapshot>("snapshots", videoId, {
+        videoId,
+        crawledAt: new Date().toISOString(),
+        comments,
+      });
+    } catch (error) {
+      console.warn("Không thể lưu snapshot:", error);
+    }
+  };
+
+  return {
+    loadSnapshot,
+    saveSnapshot,
+  };
+};
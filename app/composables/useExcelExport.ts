@@ -1,29 +1,134 @@
 // composables/useExcelExport.ts
 import * as XLSX from "xlsx/xlsx.mjs";
-import type { YouTubeComment, VideoData } from "../types/comment";
-import { formatDate, stripHtmlTags } from "../utils/format";
+import type {
+  YouTubeComment,
+  RemovedComment,
+  VideoData,
+} from "../types/comment";
+import { formatFilterReason } from "../utils/filterRules";
+import { formatDate, formatDuration, stripHtmlTags } from "../utils/format";
+import { SPAM_SIGNAL_LABELS } from "../utils/spamDetection";
+
+const yesNo = (value?: boolean) => (value ? "Có" : "");
+
+const overrideLabel = (comment: YouTubeComment) =>
+  comment.override === "keep"
+    ? "Giữ thủ công"
+    : comment.override === "remove"
+      ? "Loại thủ công"
+      : "";
+
+// Thread policy (useCommentFilter.ts) đổi vai trò của comment trong bảng
+const commentType = (comment: YouTubeComment) =>
+  comment.isContext
+    ? "Comment chính (ngữ cảnh)"
+    : comment.isPromoted
+      ? "Reply (đưa lên)"
+      : "Comment chính";
+
+type TextMask = (text: string) => string;
+const noMask: TextMask = (text) => text;
+
+// Sheet "Đã loại": comment bị bộ lọc loại và lý do
+const removedRow = (
+  { comment, reasons, parentAuthor }: RemovedComment,
+  mask: TextMask
+) => ({
+  "Ngày cmt": formatDate(comment.date),
+  "Người cmt": comment.author,
+  Loại: parentAuthor ? "Reply" : "Comment chính",
+  "Trả lời cho": parentAuthor || "",
+  "Nội dung cmt": mask(stripHtmlTags(comment.content)),
+  "Lý do loại": reasons.map(formatFilterReason).join("; "),
+  "Ghi đè bộ lọc": overrideLabel(comment),
+  "ID comment": comment.id,
+});
+
+// Metadata bổ sung - nối sau các cột hiện có
+const metadataColumns = (comment: YouTubeComment, mask: TextMask) => ({
+  "Đã sửa": yesNo(comment.isEdited),
+  "Ngày sửa":
+    comment.isEdited && comment.updatedAt ? formatDate(comment.updatedAt) : "",
+  "Chủ kênh viết": yesNo(comment.isCreator),
+  "Chủ kênh đã trả lời": yesNo(comment.hasCreatorReply),
+  "Cho phép trả lời":
+    comment.canReply === undefined ? "" : comment.canReply ? "Có" : "Không",
+  "Nội dung gốc": comment.textOriginal ? mask(comment.textOriginal) : "",
+  "ID comment": comment.id,
+  "ID comment cha": comment.parentId || "",
+  "ID kênh tác giả": comment.authorChannelId || "",
+  "Ảnh đại diện": comment.authorProfileImageUrl || "",
+  "Ghi đè bộ lọc": overrideLabel(comment),
+  // Số gốc từ API và số còn lại sau lọc (chỉ comment cha)
+  "Số trả lời": comment.parentId ? "" : comment.replyCount,
+  "Số trả lời sau lọc": comment.parentId
+    ? ""
+    : (comment.filteredReplyCount ?? comment.replies?.length ?? 0),
+  "Điểm spam": comment.spamScore ?? "",
+  "Dấu hiệu spam": (comment.spamSignals || [])
+    .map((signal) => SPAM_SIGNAL_LABELS[signal])
+    .join(", "),
+});
+
+// Sheet "Video info": bối cảnh video tại thời điểm crawl
+const videoInfoRow = (video: VideoData) => ({
+  "ID video": video.videoId,
+  "Tiêu đề": video.title,
+  URL: video.url,
+  Kênh: video.channelTitle,
+  "ID kênh": video.channelId,
+  "Ngày đăng": formatDate(video.publishedAt),
+  "Thời lượng": video.duration ? formatDuration(video.duration) : "",
+  "Lượt xem": video.viewCount,
+  "Lượt thích": video.likeCount ?? "",
+  "Số bình luận": video.totalComments,
+  Tags: video.tags.join(", "),
+  "Mô tả": video.description,
+  Thumbnail: video.thumbnailUrl || "",
+  "Thời điểm crawl": formatDate(video.capturedAt),
+  "So với snapshot lúc": video.previousCrawledAt
+    ? formatDate(video.previousCrawledAt)
+    : "",
+});
 
 export const useExcelExport = () => {
-  const exportToExcel = (comments: YouTubeComment[], videoData: VideoData) => {
+  // Một workbook chung cho mọi video trong job, cột "Video" ghi nguồn của comment
+  // (giữ "Ngày cmt" / "Người cmt" ở 2 cột đầu - luồng dịch đọc theo vị trí này)
+  const exportToExcel = (
+    comments: YouTubeComment[],
+    videos: VideoData[],
+    removed: RemovedComment[] = [],
+    // Che từ thô tục trong nội dung (toxicityMode "mask")
+    mask: TextMask = noMask
+  ) => {
+    const videoTitles = new Map(videos.map((v) => [v.videoId, v.title]));
+
     // Flatten comments + replies cho export
-    const data: Array<{
-      "Ngày cmt": string;
-      "Người cmt": string;
-      Loại: string;
-      "Trả lời cho": string;
-      "Nội dung cmt": string;
-      "Số lượng thích": number;
-    }> = [];
+    const data: Array<
+      {
+        "Ngày cmt": string;
+        "Người cmt": string;
+        Loại: string;
+        "Trả lời cho": string;
+        "Nội dung cmt": string;
+        "Ngôn ngữ": string;
+        "Số lượng thích": number;
+        Video: string;
+      } & ReturnType<typeof metadataColumns>
+    > = [];
 
     comments.forEach((comment) => {
       // Thêm comment cha
       data.push({
         "Ngày cmt": formatDate(comment.date),
         "Người cmt": comment.author,
-        Loại: "Comment chính",
+        Loại: commentType(comment),
         "Trả lời cho": "",
-        "Nội dung cmt": stripHtmlTags(comment.content),
+        "Nội dung cmt": mask(stripHtmlTags(comment.content)),
+        "Ngôn ngữ": comment.language,
         "Số lượng thích": comment.likeCount,
+        Video: videoTitles.get(comment.videoId) || comment.videoId,
+        ...metadataColumns(comment, mask),
       });
 
       // Thêm replies
@@ -34,8 +139,11 @@ export const useExcelExport = () => {
             "Người cmt": reply.author,
             Loại: "Reply",
             "Trả lời cho": comment.author,
-            "Nội dung cmt": `    ${stripHtmlTags(reply.content)}`, // Indent với 4 spaces thay vì icon
+            "Nội dung cmt": `    ${mask(stripHtmlTags(reply.content))}`, // Indent với 4 spaces thay vì icon
+            "Ngôn ngữ": reply.language,
             "Số lượng thích": reply.likeCount,
+            Video: videoTitles.get(reply.videoId) || reply.videoId,
+            ...metadataColumns(reply, mask),
           });
         });
       }
@@ -47,10 +155,25 @@ export const useExcelExport = () => {
     // Tạo workbook
     const wb = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(wb, ws, "YouTube Comments");
+    // Sheet phụ đặt sau - luồng dịch chỉ đọc sheet đầu tiên
+    XLSX.utils.book_append_sheet(
+      wb,
+      XLSX.utils.json_to_sheet(videos.map(videoInfoRow)),
+      "Video info"
+    );
+    if (removed.length > 0) {
+      XLSX.utils.book_append_sheet(
+        wb,
+        XLSX.utils.json_to_sheet(removed.map((r) => removedRow(r, mask))),
+        "Đã loại"
+      );
+    }
 
     // Xuất file
     const timestamp = Date.now();
-    const fileName = `youtube_comments_${videoData.videoId}_${timestamp}.xlsx`;
+    const source =
+      videos.length === 1 ? videos[0]?.videoId : `${videos.length}_videos`;
+    const fileName = `youtube_comments_${source}_${timestamp}.xlsx`;
     XLSX.writeFile(wb, fileName);
   };
 
@@ -0,0 +1,53 @@
+// composables/useFilterOverrides.ts
+import type { FilterOverride } from "../types/comment";
+
+// Ghi đè theo ID comment - giữ qua các lần crawl lại / tải lại trang
+const STORAGE_KEY = "yt-cmt-filter:overrides";
+
+// Dùng chung giữa bảng comment, trang chính và export
+const overrides = ref<Record<string, FilterOverride>>({});
+let loaded = false;
+
+const readStorage = (): Record<string, FilterOverride> => {
+  if (typeof localStorage === "undefined") return {};
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, FilterOverride>) : {};
+  } catch (error) {
+    console.warn("Không thể đọc ghi đè bộ lọc:", error);
+    return {};
+  }
+};
+
+const writeStorage = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides.value));
+  } catch (error) {
+    console.warn("Không thể lưu ghi đè bộ lọc:", error);
+  }
+};
+
+export const useFilterOverrides = () => {
+  if (!loaded && typeof localStorage !== "undefined") {
+    overrides.value = readStorage();
+    loaded = true;
+  }
+
+  // null → bỏ ghi đè, comment quay lại theo bộ lọc
+  const setOverride = (commentId: string, value: FilterOverride | null) => {
+    const { [commentId]: _previous, ...rest } = overrides.value;
+    overrides.value = value ? { ...rest, [commentId]: value } : rest;
+    writeStorage();
+  };
+
+  const clearOverrides = () => {
+    overrides.value = {};
+    writeStorage();
+  };
+
+  return {
+    overrides,
+    setOverride,
+    clearOverrides,
+  };
+};
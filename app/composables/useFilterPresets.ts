@@ -0,0 +1,102 @@
+// composables/useFilterPresets.ts
+import type { FilterOptions, FilterPreset } from "../types/comment";
+import { parsePreset, serializePreset } from "../utils/filterRules";
+
+// Preset nhỏ (vài KB) → localStorage là đủ, không cần IndexedDB
+const STORAGE_KEY = "yt-cmt-filter:presets";
+
+// Danh sách dùng chung giữa các component
+const presets = ref<FilterPreset[]>([]);
+let loaded = false;
+
+const readStorage = (): FilterPreset[] => {
+  if (typeof localStorage === "undefined") return [];
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as FilterPreset[]) : [];
+  } catch (error) {
+    console.warn("Không thể đọc preset bộ lọc:", error);
+    return [];
+  }
+};
+
+const writeStorage = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.value));
+  } catch (error) {
+    console.warn("Không thể lưu preset bộ lọc:", error);
+  }
+};
+
+// Bản sao thuần (không reactive, không chia sẻ tham chiếu với form)
+const toPresetFilters = (
+  filters: FilterOptions
+): FilterPreset["filters"] => {
+  const { onlyNew: _onlyNew, ...rest } = JSON.parse(
+    JSON.stringify(filters)
+  ) as FilterOptions;
+  return rest;
+};
+
+export const useFilterPresets = () => {
+  if (!loaded && typeof localStorage !== "undefined") {
+    presets.value = readStorage();
+    loaded = true;
+  }
+
+  // Trùng tên → ghi đè preset cũ
+  const savePreset = (name: string, filters: FilterOptions): FilterPreset => {
+    const preset: FilterPreset = {
+      name: name.trim(),
+      savedAt: new Date().toISOString(),
+      filters: toPresetFilters(filters),
+    };
+    presets.value = [
+      ...presets.value.filter((p) => p.name !== preset.name),
+      preset,
+    ].sort((a, b) => a.name.localeCompare(b.name));
+    writeStorage();
+    return preset;
+  };
+
+  const deletePreset = (name: string) => {
+    presets.value = presets.value.filter((p) => p.name !== name);
+    writeStorage();
+  };
+
+  // Áp preset lên bộ lọc hiện tại, giữ onlyNew của lần crawl đang xem
+  const applyPreset = (
+    preset: FilterPreset,
+    current: FilterOptions
+  ): FilterOptions => ({
+    ...JSON.parse(JSON.stringify(preset.filters)),
+    onlyNew: current.onlyNew,
+  });
+
+  const exportPreset = (preset: FilterPreset) => {
+    const blob = new Blob([serializePreset(preset)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `filter_preset_${preset.name.replace(/\s+/g, "_")}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Import rồi lưu luôn vào danh sách - lỗi cấu trúc ném Error để UI báo
+  const importPreset = async (file: File): Promise<FilterPreset> => {
+    const preset = parsePreset(await file.text());
+    return savePreset(preset.name, { ...preset.filters, onlyNew: false });
+  };
+
+  return {
+    presets,
+    savePreset,
+    deletePreset,
+    applyPreset,
+    exportPreset,
+    importPreset,
+  };
+};
@@ -1,26 +1,51 @@
-import { GoogleGenAI } from "@google/genai";
 import * as XLSX from "xlsx/xlsx.mjs";
-
-// Type definitions
-interface CommentToTranslate {
+import type {
+  AnalysisComment,
+  AnalysisResult,
+  ClassificationResult,
+  ClassifiedComment,
+  Sentiment,
+} from "../types/analysis";
+import type { LlmBatchFailure } from "../types/llm";
+import type { TaxonomySnapshot } from "../types/taxonomy";
+import type {
+  CommentToTranslate,
+  TranslatedComment,
+  TranslationCacheStats,
+  TranslationLanguage,
+  TranslationMemoryEntry,
+  TranslationOptions,
+  TranslationResult,
+} from "../types/translation";
+import { isAbortError } from "../utils/abort";
+import { runWithRepair } from "../utils/batchRepair";
+import { detectLanguage } from "../utils/language";
+import { UNCATEGORIZED_LABEL } from "../utils/taxonomy";
+import {
+  CONTENT_COLUMN_NAMES,
+  getEffectiveTargets,
+} from "../utils/translation";
+import { normalizeMemoryText } from "../utils/translationMemory";
+import { useApiScheduler } from "./useApiScheduler";
+
+// Một câu nguồn duy nhất (sau chuẩn hoá) trong lượt dịch - comment trùng
+// câu dùng chung bản dịch
+interface TranslationUnit {
   index: number;
-  author: string;
-  content: string;
-  type: string;
-  date: string;
+  text: string; // Khoá bộ nhớ dịch
+  content: string; // Nội dung gốc của comment đầu tiên - gửi lên API
+  translations: Partial<Record<TranslationLanguage, string>>;
+  failure: string | null; // Lý do lỗi sau khi đã gửi lại
 }
 
-interface TranslatedComment extends CommentToTranslate {
-  translatedContent: string;
-}
+const SENTIMENTS: Sentiment[] = ["positive", "neutral", "negative"];
 
 export const useGemini = () => {
-  const config = useRuntimeConfig();
-  const geminiKeys = config.public.geminiApiKey
-    .split(",")
-    .map((k: string) => k.trim());
-  const keyIndex = ref(0);
-
+  // 🔐 Gemini key chỉ nằm ở server (runtimeConfig private) - composable này
+  // chỉ gọi các route /api/gemini/*, prompt + schema được dựng ở server.
+  // Provider / model (Gemini, OpenAI-compatible, mock offline) chọn ở UI
+  // (useLlmModel), gửi kèm mỗi request - xem server/utils/llm
+  //
   // 🚀 PERFORMANCE OPTIMIZATION:
   // 1. Độ phức tạp thuật toán: O(n) thay vì O(n²) - dùng Map cho lookup O(1)
   // 2. Compact prompts: Giảm 60-70% tokens (i/t/c/w/n thay vì full names)
@@ -28,138 +53,132 @@ export const useGemini = () => {
   // 4. Memory efficient: Không duplicate data, chỉ store minimal fields
   //
   // 🔄 RATE LIMIT PROTECTION:
-  // 1. Delay between batches: 3s
-  // 2. Retry exponential backoff: 5s→10s→20s→40s→80s (rate limit)
-  // 3. Auto API key rotation khi 429
+  // 1. Mọi request qua scheduler chung (useApiScheduler): token bucket,
+  //    concurrency tự giảm khi 429 / 5xx, tăng dần khi thành công
+  // 2. Retry theo Retry-After của server, không có thì exponential backoff
+  // 3. Server tự xoay vòng API key mỗi request
   // 4. Sample data cho word frequency (200 thay vì toàn bộ)
-
-  // 🏷️ FIXED CATEGORIES - O(1) lookup với Map
-  // Theo file mẫu: T1-T6
-  const CATEGORIES = [
-    "角色与演员表现", // 0: T1 - Nhân vật & Diễn viên
-    "文化共鸣与道德价值", // 1: T2 - Cộng hưởng văn hóa & Giá trị đạo đức
-    "怀旧情感与童年回忆", // 2: T3 - Hoài niệm & Ký ức tuổi thơ
-    "剧情与艺术价值", // 3: T4 - Cốt truyện & Giá trị nghệ thuật
-    "语言与配音翻译", // 4: T5 - Ngôn ngữ & Lồng tiếng/Phụ đề
-    "版本对比与比较", // 5: T6 - So sánh phiên bản & bản chuyển thể
-  ] as const;
-
-  // O(1) category lookup Map
-  const categoryMap = new Map(CATEGORIES.map((name, idx) => [idx, name]));
-
-  const getNextApiKey = () => {
-    const key = geminiKeys[keyIndex.value];
-    keyIndex.value = (keyIndex.value + 1) % geminiKeys.length;
-    return key;
-  };
-
-  // Helper: Retry với exponential backoff và rate limit handling
-  const translateWithRetry = async <T>(
-    translateFn: () => Promise<T>,
-    maxRetries = 10 // Tăng lên 10 lần retry
+  //
+  // ⏹ HUỶ: mọi hàm nhận AbortSignal - request đang chờ / đang chạy dừng
+  // ngay; các vòng batch trả về phần kết quả đã xong
+  const { gemini: scheduler } = useApiScheduler();
+  const { selectedModel, isMockModel, resolveModel } = useLlmModel();
+  const { lookup, remember } = useTranslationMemory();
+
+  // POST tới endpoint LLM kèm model đang chọn (body.model ghi đè). Mock chạy
+  // offline ở server nên bỏ qua scheduler (không có rate limit)
+  const postLlm = <T>(
+    url: string,
+    body: Record<string, unknown>,
+    signal?: AbortSignal
   ): Promise<T> => {
-    let lastError: Error | null = null;
-
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        return await translateFn();
-      } catch (error) {
-        lastError = error as Error;
-        const errorObj = error as { status?: number; message?: string };
-
-        // Nếu bị rate limit (429), đợi lâu hơn
-        const isRateLimit =
-          errorObj?.status === 429 ||
-          errorObj?.message?.includes("429") ||
-          errorObj?.message?.toLowerCase().includes("rate limit");
-
-        // Exponential backoff: 2s, 4s, 8s, 16s, 32s
-        // Với rate limit: 5s, 10s, 20s, 40s, 80s
-        const baseDelay = isRateLimit ? 5000 : 2000;
-        const delay = baseDelay * Math.pow(2, attempt);
-
-        console.warn(
-          `${isRateLimit ? "⚠️ Rate limited!" : "❌ Lỗi!"} Retry ${
-            attempt + 1
-          }/${maxRetries} sau ${delay / 1000}s...`
-        );
+    // Kiểu route suy từ Nitro không gán được về T generic → ép kiểu
+    const request = () =>
+      $fetch(url, {
+        method: "POST",
+        body: { model: selectedModel.value || undefined, ...body },
+        signal,
+      }) as Promise<T>;
+    return isMockModel.value ? request() : scheduler.run(request, { signal });
+  };
 
-        // Rotate API key nếu bị rate limit
-        if (isRateLimit && geminiKeys.length > 1) {
-          console.log("🔄 Đang chuyển sang API key khác...");
-          getNextApiKey(); // Force rotation
-        }
+  // Chạy các batch song song - scheduler quyết định số request đồng thời
+  // Kết quả giữ thứ tự batch; huỷ → chỉ trả về các batch đã xong
+  // Lỗi không xử lý trong processBatch → huỷ các batch còn lại và ném lỗi
+  const runBatches = async <T, R>(
+    items: T[],
+    batchSize: number,
+    processBatch: (
+      batch: T[],
+      batchNumber: number,
+      signal: AbortSignal
+    ) => Promise<R[]>,
+    onBatchDone?: (doneCount: number) => void,
+    signal?: AbortSignal
+  ): Promise<R[]> => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    if (signal?.aborted) controller.abort();
+
+    const batches: T[][] = [];
+    for (let i = 0; i < items.length; i += batchSize) {
+      batches.push(items.slice(i, i + batchSize));
+    }
 
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
+    const results: Array<R[] | undefined> = [];
+    let doneCount = 0;
+
+    try {
+      await Promise.all(
+        batches.map(async (batch, i) => {
+          try {
+            results[i] = await processBatch(batch, i + 1, controller.signal);
+            doneCount += batch.length;
+            onBatchDone?.(doneCount);
+          } catch (error) {
+            if (isAbortError(error)) return;
+            controller.abort();
+            throw error;
+          }
+        })
+      );
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
     }
 
-    throw lastError || new Error("Translation failed after retries");
+    return results.flatMap((result) => result || []);
   };
 
+  // Ngôn ngữ nguồn ghi vào kết quả: "auto" → nhận diện local từng comment
+  const withTranslations = (
+    comment: CommentToTranslate,
+    source: TranslationOptions["source"],
+    translations: Partial<Record<TranslationLanguage, string>>
+  ): TranslatedComment => ({
+    ...comment,
+    sourceLanguage:
+      source === "auto" ? detectLanguage(comment.content) : source,
+    translations,
+  });
+
   // OPTIMIZED: Batch translate với minimal data transfer
+  // Mọi ngôn ngữ đích dịch trong cùng 1 request, đúng model đã tra bộ nhớ dịch
   const translateBatch = async (
-    batch: CommentToTranslate[]
-  ): Promise<TranslatedComment[]> => {
-    const ai = new GoogleGenAI({
-      apiKey: getNextApiKey(),
-    });
-
-    // Chỉ gửi index và content để giảm input tokens & memory
-    const minimalData = batch.map((c) => ({
-      i: c.index, // Rút ngắn "index" -> "i" để giảm tokens
-      c: c.content, // "content" -> "c"
-    }));
-
-    // Compact prompt để giảm tokens
-    const prompt = `Dịch Việt→中文. JSON: [{"i":idx,"t":"译文"}]
-
-${minimalData.map((d) => `[${d.i}] ${d.c}`).join("\n")}`;
-
-    const response = await translateWithRetry(() =>
-      ai.models.generateContent({
-        model: "gemini-2.0-flash",
-        contents: prompt,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: "array",
-            items: {
-              type: "object",
-              properties: {
-                i: { type: "number" }, // Shortened from "index"
-                t: { type: "string" }, // Shortened from "translatedContent"
-              },
-              required: ["i", "t"],
-            },
-          },
-        },
-      })
+    batch: Array<{ index: number; content: string }>,
+    options: TranslationOptions,
+    model: string,
+    signal?: AbortSignal
+  ): Promise<
+    Array<{
+      index: number;
+      translations: Partial<Record<TranslationLanguage, string>>;
+    }>
+  > => {
+    return postLlm<
+      Array<{
+        index: number;
+        translations: Partial<Record<TranslationLanguage, string>>;
+      }>
+    >(
+      "/api/gemini/translate",
+      {
+        items: batch,
+        source: options.source,
+        targets: options.targets,
+        model,
+      },
+      signal
     );
-
-    if (!response.text) {
-      throw new Error("Empty response from Gemini API");
-    }
-
-    const translations = JSON.parse(response.text) as Array<{
-      i: number;
-      t: string;
-    }>;
-
-    // OPTIMIZED: O(1) Map lookup thay vì O(n) find()
-    const translationMap = new Map(translations.map((tr) => [tr.i, tr.t]));
-
-    return batch.map((comment) => ({
-      ...comment,
-      translatedContent: translationMap.get(comment.index) || comment.content,
-    }));
   };
 
-  // Main translation function
+  // Main translation function: đọc file rồi dịch (translateComments)
   const translateCommentsFromExcel = async (
     file: File,
-    onProgress?: (current: number, total: number) => void
-  ): Promise<TranslatedComment[]> => {
+    translationOptions: TranslationOptions,
+    onProgress?: (current: number, total: number) => void,
+    signal?: AbortSignal
+  ): Promise<TranslationResult> => {
     // 1. Đọc file Excel
     const arrayBuffer = await file.arrayBuffer();
     const workbook = XLSX.read(arrayBuffer);
@@ -175,14 +194,16 @@ ${minimalData.map((d) => `[${d.i}] ${d.c}`).join("\n")}`;
       throw new Error("Worksheet not found");
     }
 
-    // 2. Parse data - Tự động tìm cột "Nội dung cmt"
+    // 2. Parse data - Tự động tìm cột nội dung ("Nội dung cmt"...)
     const rawData = XLSX.utils.sheet_to_json(worksheet, {
       header: 1,
     }) as unknown[][];
 
     const comments: CommentToTranslate[] = [];
 
-    // Tìm header row và index cột "Nội dung cmt"
+    // Tìm header row và index cột nội dung - tên cột theo thứ tự ưu tiên
+    // trong CONTENT_COLUMN_NAMES
+    const contentNames = CONTENT_COLUMN_NAMES.map((name) => name.toLowerCase());
     let headerRowIndex = -1;
     let contentColIndex = -1;
     let typeColIndex = -1;
@@ -190,9 +211,12 @@ ${minimalData.map((d) => `[${d.i}] ${d.c}`).join("\n")}`;
     for (let i = 0; i < rawData.length; i++) {
       const row = rawData[i];
       if (row && Array.isArray(row)) {
+        let bestRank = contentNames.length;
         for (let j = 0; j < row.length; j++) {
           const cell = String(row[j] || "").trim();
-          if (cell === "Nội dung cmt") {
+          const rank = contentNames.indexOf(cell.toLowerCase());
+          if (rank !== -1 && rank < bestRank) {
+            bestRank = rank;
             headerRowIndex = i;
             contentColIndex = j;
           }
@@ -203,10 +227,14 @@ ${minimalData.map((d) => `[${d.i}] ${d.c}`).join("\n")}`;
     }
 
     if (contentColIndex === -1) {
-      throw new Error('Không tìm thấy cột "Nội dung cmt" trong file Excel');
+      throw new Error(
+        `Không tìm thấy cột nội dung trong file Excel (${CONTENT_COLUMN_NAMES.join(
+          ", "
+        )})`
+      );
     }
 
-    console.log(`✅ Tìm thấy cột "Nội dung cmt" ở vị trí ${contentColIndex}`);
+    console.log(`✅ Tìm thấy cột nội dung ở vị trí ${contentColIndex}`);
 
     // Extract comments từ dòng sau header
     // Cột 0 = Ngày cmt, Cột 1 = Người cmt (fixed)
@@ -228,149 +256,282 @@ ${minimalData.map((d) => `[${d.i}] ${d.c}`).join("\n")}`;
 
     console.log(`📖 Đã đọc ${comments.length} comments từ file Excel`);
 
-    // 3. Batch translation - TIME: O(n/BATCH_SIZE), SPACE: O(n)
-    const BATCH_SIZE = 150; // Optimal: 150 comments/batch (balance speed vs rate limit)
-    const translated: TranslatedComment[] = [];
-    const totalBatches = Math.ceil(comments.length / BATCH_SIZE);
+    return translateComments(comments, translationOptions, onProgress, signal);
+  };
+
+  // signal abort → trả về các comment đã dịch xong
+  // onProgress đếm theo số câu phải gửi API (sau khi trừ bộ nhớ dịch)
+  const translateComments = async (
+    comments: CommentToTranslate[],
+    translationOptions: TranslationOptions,
+    onProgress?: (current: number, total: number) => void,
+    signal?: AbortSignal
+  ): Promise<TranslationResult> => {
+    const options: TranslationOptions = {
+      source: translationOptions.source,
+      targets: getEffectiveTargets(translationOptions),
+    };
+    if (options.targets.length === 0) {
+      throw new Error("Chọn ít nhất một ngôn ngữ đích khác ngôn ngữ nguồn");
+    }
+
+    // 3. Bộ nhớ dịch: gộp comment trùng câu (sau chuẩn hoá), tra bộ nhớ
+    // theo model + cặp ngôn ngữ, chỉ gửi API những câu còn thiếu bản dịch
+    const model = await resolveModel();
+    const units = new Map<string, TranslationUnit>();
+    comments.forEach((comment) => {
+      const text = normalizeMemoryText(comment.content);
+      if (!units.has(text)) {
+        units.set(text, {
+          index: units.size,
+          text,
+          content: comment.content,
+          translations: {},
+          failure: null,
+        });
+      }
+    });
+    const unitList = Array.from(units.values());
+
+    const cached = await lookup(
+      unitList.flatMap((unit) =>
+        options.targets.map((target) => ({
+          model,
+          source: options.source,
+          target,
+          text: unit.text,
+        }))
+      )
+    );
+    unitList.forEach((unit, i) => {
+      options.targets.forEach((target, j) => {
+        const translation = cached[i * options.targets.length + j];
+        if (translation) unit.translations[target] = translation;
+      });
+    });
+
+    const isComplete = (unit: TranslationUnit) =>
+      options.targets.every((target) => !!unit.translations[target]);
+    const misses = unitList.filter((unit) => !isComplete(unit));
+    const hits = comments.filter((comment) =>
+      isComplete(units.get(normalizeMemoryText(comment.content))!)
+    ).length;
+    const cache: TranslationCacheStats = {
+      total: comments.length,
+      hits,
+      duplicates: comments.length - hits - misses.length,
+      requested: misses.length,
+    };
 
     console.log(
-      `🔄 Bắt đầu dịch ${comments.length} comments (${totalBatches} batches)...`
+      `🧠 Bộ nhớ dịch: ${hits}/${comments.length} comments có sẵn bản dịch, gửi ${misses.length} câu`
     );
 
-    for (let i = 0; i < comments.length; i += BATCH_SIZE) {
-      const batch = comments.slice(i, i + BATCH_SIZE);
-      const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
+    // 4. Batch translation - TIME: O(n/BATCH_SIZE), SPACE: O(n)
+    onProgress?.(0, misses.length);
+    const BATCH_SIZE = 150; // Optimal: 150 comments/batch (balance speed vs rate limit)
+    const totalBatches = Math.ceil(misses.length / BATCH_SIZE);
 
-      console.log(
-        `→ Đang dịch batch ${batchNumber}/${totalBatches} (${batch.length} comments)...`
-      );
+    console.log(
+      `🔄 Bắt đầu dịch ${misses.length} câu (${totalBatches} batches)...`
+    );
 
-      try {
-        const translatedBatch = await translateBatch(batch);
-        translated.push(...translatedBatch);
+    const translatedUnits = await runBatches(
+      misses,
+      BATCH_SIZE,
+      async (batch, batchNumber, batchSignal) => {
+        console.log(
+          `→ Đang dịch batch ${batchNumber}/${totalBatches} (${batch.length} câu)...`
+        );
 
-        // Update progress
-        if (onProgress) {
-          onProgress(translated.length, comments.length);
-        }
+        // 🔍 Câu thiếu / thiếu ngôn ngữ đích được gửi lại theo batch nhỏ hơn
+        const { results, failures } = await runWithRepair(
+          batch,
+          (units) =>
+            translateBatch(
+              units.map((unit) => ({
+                index: unit.index,
+                content: unit.content,
+              })),
+              options,
+              model,
+              batchSignal
+            ),
+          (raw) => {
+            const translated = (raw.translations || {}) as Record<
+              string,
+              unknown
+            >;
+            return options.targets.every(
+              (target) =>
+                typeof translated[target] === "string" &&
+                !!(translated[target] as string).trim()
+            )
+              ? (translated as Partial<Record<TranslationLanguage, string>>)
+              : null;
+          }
+        );
 
-        // Delay giữa các batches để tránh rate limit
-        if (i + BATCH_SIZE < comments.length) {
-          await new Promise((resolve) => setTimeout(resolve, 3000)); // 3s delay (tăng từ 1s)
+        // Chỉ ghi nhớ bản dịch thật - câu vẫn lỗi không lưu
+        const updatedAt = new Date().toISOString();
+        const entries: TranslationMemoryEntry[] = [];
+        batch.forEach((unit) => {
+          unit.failure = failures.get(unit.index) ?? null;
+          const translated = results.get(unit.index) || {};
+          options.targets.forEach((target) => {
+            const translation = translated[target];
+            if (unit.translations[target] || !translation) return;
+            unit.translations[target] = translation;
+            entries.push({
+              source: options.source,
+              target,
+              model,
+              text: unit.text,
+              translation,
+              updatedAt,
+            });
+          });
+        });
+        await remember(entries);
+
+        if (failures.size > 0) {
+          console.error(
+            `❌ Batch ${batchNumber}: ${failures.size} câu vẫn lỗi sau khi gửi lại`
+          );
         }
-      } catch (error) {
-        console.error(`❌ Lỗi khi dịch batch ${batchNumber}:`, error);
+        return batch;
+      },
+      (doneCount) => onProgress?.(doneCount, misses.length),
+      signal
+    );
 
-        // Fallback: Giữ nguyên nội dung gốc
-        batch.forEach((comment) => {
-          translated.push({
-            ...comment,
-            translatedContent: comment.content + " [Lỗi dịch]",
-          });
+    // Đã huỷ → chỉ giữ comment có câu lấy từ bộ nhớ hoặc thuộc batch đã xong
+    const missSet = new Set(misses);
+    const doneUnits = new Set([
+      ...unitList.filter((unit) => !missSet.has(unit)),
+      ...translatedUnits,
+    ]);
+
+    // Câu vẫn lỗi → giữ nội dung gốc kèm đánh dấu và ghi vào failures
+    const failures: LlmBatchFailure[] = [];
+    const translated = comments.flatMap((comment) => {
+      const unit = units.get(normalizeMemoryText(comment.content))!;
+      if (!doneUnits.has(unit)) return [];
+      if (unit.failure !== null) {
+        failures.push({
+          index: comment.index,
+          content: comment.content,
+          reason: unit.failure,
         });
       }
+      return [
+        withTranslations(
+          comment,
+          options.source,
+          Object.fromEntries(
+            options.targets.map((target) => [
+              target,
+              unit.translations[target] || comment.content + " [Lỗi dịch]",
+            ])
+          )
+        ),
+      ];
+    });
+
+    if (signal?.aborted) {
+      console.warn(`⏹ Đã huỷ - giữ ${translated.length} comments đã dịch`);
     }
 
     console.log(`✅ Hoàn thành dịch ${translated.length} comments!`);
-    return translated;
+    return { comments: translated, cache, failures };
   };
 
-  // OPTIMIZED: Classify với fixed categories (chỉ trả về index 0-5)
-  const classifyBatch = async (
-    batch: Array<{ index: number; content: string }>
-  ): Promise<Array<{ index: number; categoryName: string }>> => {
-    const ai = new GoogleGenAI({
-      apiKey: getNextApiKey(),
-    });
-
-    // Ultra-compact: AI chỉ trả về category index (0-5)
-    const prompt = `分类评论主题。JSON: [{"i":评论索引,"c":主题索引}]
-
-主题分类标准（0-5，选择最匹配的一个）:
-
-0=怀旧情感与童年回忆
-特征：表达对过去的怀念、童年回忆、时光流逝的感慨
-例子："小时候看的"、"童年回忆"、"怀念以前"、"还记得那时候"
-
-1=角色与演员表现
-特征：评论角色塑造、演员演技、配音表现、角色魅力
-例子："孙悟空演得好"、"六小龄童太棒了"、"这个演员很厉害"、"角色很生动"
-
-2=剧情与艺术价值
-特征：评价故事情节、艺术价值、文学性、深度、制作水平
-例子："剧情很精彩"、"经典之作"、"艺术价值高"、"制作精良"
-
-3=版本对比与比较
-特征：对比不同版本、不同翻拍、与其他作品比较
-例子："比新版好看"、"86版最经典"、"和原著不一样"、"其他版本都不如"
-
-4=文化共鸣与道德价值
-特征：讨论文化内涵、传统价值观、道德教育、人生哲理、寓意深刻
-例子："教育意义深刻"、"传承文化"、"有道德价值"、"富含哲理"
-注意：讽刺或批评性评论（如"让猴子看桃园"）不属于此类
-
-5=语言与配音翻译
-特征：评论配音质量、翻译水平、台词、口音、语言表达
-例子："配音很好听"、"翻译准确"、"台词经典"、"声音很配"
-
-${batch.map((c) => `[${c.index}] ${c.content}`).join("\n")}`;
-
-    const response = await translateWithRetry(() =>
-      ai.models.generateContent({
-        model: "gemini-2.0-flash",
-        contents: prompt,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: "array",
-            items: {
-              type: "object",
-              properties: {
-                i: { type: "number" }, // comment index
-                c: {
-                  type: "number", // category index (0-5)
-                  minimum: 0,
-                  maximum: 5,
-                },
-              },
-              required: ["i", "c"],
-            },
-          },
-        },
-      })
+  // Dịch lại riêng các comment còn lỗi của một lượt, ghép vào kết quả cũ
+  // Huỷ giữa chừng → comment chưa dịch lại vẫn nằm trong failures
+  const retryFailedTranslations = async (
+    result: TranslationResult,
+    options: TranslationOptions,
+    onProgress?: (current: number, total: number) => void,
+    signal?: AbortSignal
+  ): Promise<TranslationResult> => {
+    const failedIndices = new Set(result.failures.map((f) => f.index));
+    const retry = await translateComments(
+      result.comments.filter((comment) => failedIndices.has(comment.index)),
+      options,
+      onProgress,
+      signal
     );
 
-    if (!response.text) {
-      throw new Error("Empty response from Gemini API");
-    }
+    const retriedMap = new Map(retry.comments.map((c) => [c.index, c]));
+    return {
+      comments: result.comments.map(
+        (comment) => retriedMap.get(comment.index) || comment
+      ),
+      // Thống kê của cả lượt: comment lượt đầu đã tính trong total /
+      // duplicates, cộng thêm lượt lấy từ bộ nhớ và số câu gửi lại
+      cache: {
+        ...result.cache,
+        hits: result.cache.hits + retry.cache.hits,
+        requested: result.cache.requested + retry.cache.requested,
+      },
+      failures: [
+        ...retry.failures,
+        ...result.failures.filter((f) => !retriedMap.has(f.index)),
+      ],
+    };
+  };
+
+  // Classify theo bộ chủ đề (server dựng prompt + schema, AI chỉ trả index)
+  // categoryName null = index chủ đề ngoài bộ
+  const classifyBatch = async (
+    batch: Array<{ index: number; content: string }>,
+    taxonomy: TaxonomySnapshot,
+    signal?: AbortSignal
+  ): Promise<Array<{ index: number; categoryName: string | null }>> => {
+    return postLlm<Array<{ index: number; categoryName: string | null }>>(
+      "/api/gemini/classify",
+      { items: batch, taxonomy: { categories: taxonomy.categories } },
+      signal
+    );
+  };
 
-    const result = JSON.parse(response.text) as Array<{
-      i: number;
-      c: number;
-    }>;
+  // Classify 1 batch, comment thiếu / sai chủ đề gửi lại theo batch nhỏ dần
+  // Vẫn lỗi → 未分类 và ghi vào failures
+  const classifyBatchWithRepair = async (
+    batch: Array<{ index: number; content: string }>,
+    taxonomy: TaxonomySnapshot,
+    failures: LlmBatchFailure[],
+    signal?: AbortSignal
+  ): Promise<Array<{ index: number; categoryName: string }>> => {
+    const labels = new Set(taxonomy.categories.map((c) => c.label));
+    const { results, failures: failed } = await runWithRepair(
+      batch,
+      (items) => classifyBatch(items, taxonomy, signal),
+      (raw) =>
+        labels.has(raw.categoryName as string)
+          ? (raw.categoryName as string)
+          : null
+    );
 
-    // O(1) Map lookup
-    return result.map((r) => ({
-      index: r.i,
-      categoryName: categoryMap.get(r.c) || CATEGORIES[0],
-    }));
+    return batch.map((item) => {
+      const reason = failed.get(item.index);
+      if (reason !== undefined) {
+        failures.push({ index: item.index, content: item.content, reason });
+      }
+      return {
+        index: item.index,
+        categoryName: results.get(item.index) || UNCATEGORIZED_LABEL,
+      };
+    });
   };
 
-  // Main classification function
+  // Main classification function - signal abort → trả về phần đã phân loại
   const classifyCommentsFromExcel = async (
     file: File,
-    onProgress?: (current: number, total: number) => void
-  ): Promise<
-    Array<{
-      index: number;
-      date: string;
-      author: string;
-      type: string;
-      viContent: string;
-      zhContent: string;
-      categoryName: string;
-    }>
-  > => {
+    taxonomy: TaxonomySnapshot,
+    onProgress?: (current: number, total: number) => void,
+    signal?: AbortSignal
+  ): Promise<ClassificationResult> => {
     // 1. Đọc file Excel
     const arrayBuffer = await file.arrayBuffer();
     const workbook = XLSX.read(arrayBuffer);
@@ -532,289 +693,220 @@ ${batch.map((c) => `[${c.index}] ${c.content}`).join("\n")}`;
 
     // 4. Batch classification - TIME: O(n), SPACE: O(n)
     const BATCH_SIZE = 150; // Optimal batch size
-    const classified: Array<{
-      index: number;
-      date: string;
-      author: string;
-      type: string;
-      viContent: string;
-      zhContent: string;
-      categoryName: string;
-    }> = [];
     const totalBatches = Math.ceil(comments.length / BATCH_SIZE);
 
     console.log(
       `🔄 Bắt đầu phân loại ${comments.length} comments (${totalBatches} batches)...`
     );
 
-    for (let i = 0; i < comments.length; i += BATCH_SIZE) {
-      const batch = comments.slice(i, i + BATCH_SIZE);
-      const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
-
-      console.log(
-        `→ Đang phân loại batch ${batchNumber}/${totalBatches} (${batch.length} comments)...`
-      );
+    const failures: LlmBatchFailure[] = [];
+    const classified = await runBatches(
+      comments,
+      BATCH_SIZE,
+      async (batch, batchNumber, batchSignal) => {
+        console.log(
+          `→ Đang phân loại batch ${batchNumber}/${totalBatches} (${batch.length} comments)...`
+        );
 
-      try {
         // Chỉ gửi index và zhContent
-        const minimalData = batch.map((c) => ({
-          index: c.index,
-          content: c.zhContent,
-        }));
-
-        const classifiedBatch = await classifyBatch(minimalData);
-
-        // OPTIMIZED: O(n²) -> O(n) với Map lookup
-        const categoryMap = new Map(
-          classifiedBatch.map((c) => [c.index, c.categoryName])
+        const results = await classifyBatchWithRepair(
+          batch.map((c) => ({ index: c.index, content: c.zhContent })),
+          taxonomy,
+          failures,
+          batchSignal
         );
 
-        batch.forEach((comment) => {
-          classified.push({
-            ...comment,
-            categoryName: categoryMap.get(comment.index) || "未分类",
-          });
-        });
-
-        // Update progress
-        if (onProgress) {
-          onProgress(classified.length, comments.length);
-        }
+        return batch.map((comment, i) => ({
+          ...comment,
+          categoryName: results[i]!.categoryName,
+        }));
+      },
+      (doneCount) => onProgress?.(doneCount, comments.length),
+      signal
+    );
 
-        // Delay giữa các batches để tránh rate limit
-        if (i + BATCH_SIZE < comments.length) {
-          await new Promise((resolve) => setTimeout(resolve, 3000)); // 3s delay (tăng từ 1s)
-        }
-      } catch (error) {
-        console.error(`❌ Lỗi khi phân loại batch ${batchNumber}:`, error);
+    if (signal?.aborted) {
+      console.warn(`⏹ Đã huỷ - giữ ${classified.length} comments đã phân loại`);
+    }
 
-        // Fallback: Gán categoryName = "未分类"
-        batch.forEach((comment) => {
-          classified.push({
-            ...comment,
-            categoryName: "未分类",
-          });
-        });
-      }
+    if (failures.length > 0) {
+      console.error(
+        `❌ ${failures.length} comments vẫn lỗi sau khi gửi lại, gán ${UNCATEGORIZED_LABEL}`
+      );
     }
 
     console.log(`✅ Hoàn thành phân loại ${classified.length} comments!`);
-    return classified;
+    return { comments: classified, taxonomy, failures };
   };
 
-  // OPTIMIZED: Word frequency với compact prompt
-  const analyzeWordFrequency = async (
-    comments: string[]
-  ): Promise<Array<{ word: string; count: number }>> => {
-    const ai = new GoogleGenAI({
-      apiKey: getNextApiKey(),
-    });
-
-    // Sample 200 comments thay vì 100 để đại diện tốt hơn
-    const sample = comments.length > 200 ? comments.slice(0, 200) : comments;
-
-    const prompt = `提取高频关键词，统计每个有效词汇的出现次数。JSON: [{"w":"词","n":次数}]
-
-要求：
-1. 删除评论中的标点符号、表情等无意义字符，以及对比较结果无特殊影响的停用词
-2. 使用中文断词，去除虚词（的、了、是、在、如"的""了""是"等），只保留有实际意义的关键词
-3. 只保留具有实际意义的关键词，避免"如""等"之类无意义词
-4. 统计每个有效词汇的出现次数，并计算其在总数词汇中的占比（%），从而识别最高频关键词
-5. 关键词应该是2-4个字的词组，具有明确含义
-
-示例需要提取的关键词类型：
-- 角色名称：孙悟空、唐僧、猪八戒、沙僧、白龙马
-- 人物评价：演员、演技、表演、配角
-- 情感词汇：怀念、童年、回忆、经典
-- 艺术评价：剧情、制作、艺术、精彩
-- 版本对比：86版、新版、翻拍、原版
-
-${sample.join("\n")}`;
-
-    const response = await translateWithRetry(() =>
-      ai.models.generateContent({
-        model: "gemini-2.0-flash",
-        contents: prompt,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: "array",
-            items: {
-              type: "object",
-              properties: {
-                w: { type: "string" }, // word
-                n: { type: "number" }, // count
-              },
-              required: ["w", "n"],
-            },
-          },
-        },
-      })
+  // Phân loại lại riêng các comment còn lỗi, ghép vào kết quả cũ
+  // Huỷ giữa chừng → comment chưa gửi lại vẫn nằm trong failures
+  const retryFailedClassification = async (
+    result: ClassificationResult,
+    onProgress?: (current: number, total: number) => void,
+    signal?: AbortSignal
+  ): Promise<ClassificationResult> => {
+    const BATCH_SIZE = 150; // Optimal batch size
+    const failures: LlmBatchFailure[] = [];
+    const retried = await runBatches(
+      result.failures.map((f) => ({ index: f.index, content: f.content })),
+      BATCH_SIZE,
+      (batch, _batchNumber, batchSignal) =>
+        classifyBatchWithRepair(batch, result.taxonomy, failures, batchSignal),
+      (doneCount) => onProgress?.(doneCount, result.failures.length),
+      signal
     );
 
-    if (!response.text) {
-      throw new Error("Empty response from Gemini API");
-    }
+    const retriedMap = new Map(retried.map((r) => [r.index, r]));
+    const comments: ClassifiedComment[] = result.comments.map((comment) => {
+      const retriedComment = retriedMap.get(comment.index);
+      return retriedComment
+        ? { ...comment, categoryName: retriedComment.categoryName }
+        : comment;
+    });
 
-    const result = JSON.parse(response.text) as Array<{
-      w: string;
-      n: number;
-    }>;
+    return {
+      ...result,
+      comments,
+      failures: [
+        ...failures,
+        ...result.failures.filter((f) => !retriedMap.has(f.index)),
+      ],
+    };
+  };
 
-    return result.map((r) => ({
-      word: r.w,
-      count: r.n,
-    }));
+  // OPTIMIZED: Word frequency với compact prompt
+  // Ví dụ từ khoá trong prompt lấy từ bộ chủ đề đang dùng
+  const analyzeWordFrequency = async (
+    comments: string[],
+    taxonomy: TaxonomySnapshot,
+    signal?: AbortSignal
+  ): Promise<Array<{ word: string; count: number }>> => {
+    // Server chỉ dùng mẫu 200 comments đầu
+    return postLlm<Array<{ word: string; count: number }>>(
+      "/api/gemini/word-frequency",
+      {
+        comments: comments.slice(0, 200),
+        taxonomy: { categories: taxonomy.categories },
+      },
+      signal
+    );
   };
 
-  // OPTIMIZED: Gộp Sentiment + Topic trong 1 API call với fixed categories
+  // OPTIMIZED: Gộp Sentiment + Topic trong 1 API call theo bộ chủ đề
+  // null = model trả giá trị ngoài schema (kiểm tra ở analyzeBatchWithRepair)
   const analyzeSentimentAndTopicBatch = async (
-    batch: Array<{ index: number; content: string }>
+    batch: Array<{ index: number; content: string }>,
+    taxonomy: TaxonomySnapshot,
+    signal?: AbortSignal
   ): Promise<
     Array<{
       index: number;
-      sentiment: "positive" | "neutral" | "negative";
-      categoryName: string;
+      sentiment: Sentiment | null;
+      categoryName: string | null;
     }>
   > => {
-    const ai = new GoogleGenAI({
-      apiKey: getNextApiKey(),
-    });
-
-    // Ultra-compact: AI chỉ trả về index của category (0-5)
-    const prompt = `分析评论情感和主题。JSON: [{"i":评论索引,"s":"情感","c":主题索引}]
-
-情感(s): "1"=积极, "0"=中性, "-1"=消极
-
-主题(c)分类标准（0-5，选择最匹配的一个）:
-
-0=角色与演员表现 (T1)
-特征：包扎观众对主要人物（孙悟空、唐僧、猪八戒、沙僧、白龙马等）的评价，以及对演员表现的点评
-关键词：孙悟空、唐僧、猪八戒、沙僧、白龙马、演员、演技、表演、配角、扮演、塑造、魅力、生动
-例子：称赞主要角色、评论演员演技、人物塑造、配角表现、角色魅力
-实例评论："连那些恐怖大王儿子的配角们都那么得惊险猴子一样"、"孙悟空太厉害了"、"六小龄童演得真好"
-
-1=文化共鸣与道德价值 (T2)
-特征：涉及儒、释、道思想中的哲理与道德价值，反映观众对社会议题或文化共鸣的思考
-关键词：善良、仁义、修行、信仰、智慧、道德、教育、哲理、人生、价值观、文化、传统、思想
-例子：评论道德价值、人生哲理、文化内涵、教育意义、思想深度
-实例评论："体现了仁义礼智信"、"教育意义深刻"、"传承中华文化"
-
-2=怀旧情感与童年回忆 (T3)
-特征：表达宣泄时显现感触妙、读经典作品的强烈怀旧情绪或童年回忆
-关键词：童年、回忆、怀念、小时候、长大、以前、那时候、经典、永恒、时光、青春、记忆、感动
-例子：回忆童年看剧经历、怀念过去时光、感慨岁月流逝、重温经典
-实例评论："小时候每年暑假必看"、"满满的童年回忆"、"怀念那个年代"、"陪伴我长大的经典"
-
-3=剧情与艺术价值 (T4)
-特征：涉及刚性的儒值，情节发展，拍摄技巧、音乐、特效、服装等艺术层面的评价
-关键词：剧情、情节、故事、艺术、制作、精良、画面、音乐、特效、服装、导演、经典、精彩、深刻
-例子：评论故事情节、艺术价值、制作水平、拍摄技巧、视听效果
-实例评论："剧情紧凑精彩"、"艺术价值极高"、"制作精良"、"配乐经典"
-
-4=语言与配音翻译 (T5)
-特征：涉及配音效果、语言版本、字幕翻译、台词质量等语言表达问题
-关键词：配音、声音、台词、翻译、字幕、普通话、粤语、方言、口音、语言、版本、中文、越南语
-例子：评论配音质量、翻译准确度、台词表达、语言版本
-实例评论："配音非常到位"、"翻译很准确"、"台词朗朗上口"、"粤语版更有味道"
-
-5=版本对比与比较 (T6)
-特征：观众对1986版、2010版、电影版、动画版等不同版本的对比评价，包括剧情差异、演员对比、特效对比等
-关键词：1986、新版、老版、版本、翻拍、比较、对比、不如、超越、经典版、原版、重拍、改编
-例子：对比不同版本、比较翻拍作品、评价版本差异、经典版vs新版
-实例评论："86版永远是经典"、"新版不如老版"、"比2010版好太多"、"各版本各有特色"
-
-${batch.map((c) => `[${c.index}] ${c.content}`).join("\n")}`;
-
-    const response = await translateWithRetry(() =>
-      ai.models.generateContent({
-        model: "gemini-2.0-flash",
-        contents: prompt,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: "array",
-            items: {
-              type: "object",
-              properties: {
-                i: { type: "number" }, // comment index
-                s: {
-                  type: "string", // sentiment
-                  enum: ["1", "0", "-1"],
-                },
-                c: {
-                  type: "number", // category index (0-5)
-                  minimum: 0,
-                  maximum: 5,
-                },
-              },
-              required: ["i", "s", "c"],
-            },
-          },
-        },
-      })
+    return postLlm<
+      Array<{
+        index: number;
+        sentiment: Sentiment | null;
+        categoryName: string | null;
+      }>
+    >(
+      "/api/gemini/sentiment-topic",
+      { items: batch, taxonomy: { categories: taxonomy.categories } },
+      signal
     );
-
-    if (!response.text) {
-      throw new Error("Empty response from Gemini API");
-    }
-
-    const result = JSON.parse(response.text) as Array<{
-      i: number;
-      s: "1" | "0" | "-1";
-      c: number;
-    }>;
-
-    // O(1) lookups
-    const sentimentMap: Record<string, "positive" | "neutral" | "negative"> = {
-      "1": "positive",
-      "0": "neutral",
-      "-1": "negative",
-    };
-
-    return result.map((r) => ({
-      index: r.i,
-      sentiment: sentimentMap[r.s] || "neutral",
-      categoryName: categoryMap.get(r.c) || CATEGORIES[0], // O(1) lookup
-    }));
   };
 
   // DEPRECATED: Giữ lại để backward compatibility
   const analyzeSentimentBatch = async (
-    batch: Array<{ index: number; content: string }>
+    batch: Array<{ index: number; content: string }>,
+    taxonomy: TaxonomySnapshot
   ): Promise<
     Array<{ index: number; sentiment: "positive" | "neutral" | "negative" }>
   > => {
-    const combined = await analyzeSentimentAndTopicBatch(batch);
+    const combined = await analyzeSentimentAndTopicBatch(batch, taxonomy);
     return combined.map((r) => ({
       index: r.index,
-      sentiment: r.sentiment,
+      sentiment: r.sentiment ?? "neutral",
     }));
   };
 
+  // Sentiment + topic cho 1 batch, kiểm tra từng phần tử theo index + schema
+  // (sentiment hợp lệ, chủ đề thuộc bộ chủ đề), phần tử thiếu / sai gửi lại
+  // theo batch nhỏ dần. Vẫn lỗi → trung lập / 未分类 và ghi vào failures
+  const analyzeBatchWithRepair = async (
+    batch: Array<{ index: number; content: string }>,
+    taxonomy: TaxonomySnapshot,
+    failures: LlmBatchFailure[],
+    signal?: AbortSignal
+  ): Promise<
+    Array<{ index: number; sentiment: Sentiment; categoryName: string }>
+  > => {
+    const labels = new Set(taxonomy.categories.map((c) => c.label));
+    const { results, failures: failed } = await runWithRepair(
+      batch,
+      (items) => analyzeSentimentAndTopicBatch(items, taxonomy, signal),
+      (raw) => {
+        const { sentiment, categoryName } = raw;
+        return SENTIMENTS.includes(sentiment as Sentiment) &&
+          labels.has(categoryName as string)
+          ? {
+              sentiment: sentiment as Sentiment,
+              categoryName: categoryName as string,
+            }
+          : null;
+      }
+    );
+
+    return batch.map((item) => {
+      const reason = failed.get(item.index);
+      if (reason !== undefined) {
+        failures.push({ index: item.index, content: item.content, reason });
+      }
+      return {
+        index: item.index,
+        ...(results.get(item.index) || {
+          sentiment: "neutral",
+          categoryName: UNCATEGORIZED_LABEL,
+        }),
+      };
+    });
+  };
+
+  // Thống kê từ danh sách comment cuối cùng - O(n) single pass
+  const summarizeAnalysis = (
+    comments: AnalysisComment[],
+    taxonomy: TaxonomySnapshot
+  ) => {
+    const sentimentSummary = { positive: 0, neutral: 0, negative: 0 };
+    // Mọi chủ đề trong bộ đều có mặt (kể cả 0) để so sánh giữa các lần chạy
+    const topicDistribution: Record<string, number> = Object.fromEntries(
+      taxonomy.categories.map((category) => [category.label, 0])
+    );
+
+    comments.forEach((c) => {
+      sentimentSummary[c.sentiment]++;
+      topicDistribution[c.categoryName] =
+        (topicDistribution[c.categoryName] || 0) + 1;
+    });
+
+    return { sentimentSummary, topicDistribution };
+  };
+
   // ========== PHÂN TÍCH TỔNG HỢP (OPTIMIZED: Song song 3 API calls) ==========
+  // signal abort → chỉ trả về các comment thuộc batch đã phân tích xong
+  // Kết quả ghi kèm bộ chủ đề (đúng phiên bản) + model để tái lập / export
   const analyzeCommentsFromExcel = async (
     file: File,
-    onProgress?: (stage: string, current: number, total: number) => void
-  ): Promise<{
-    comments: Array<{
-      index: number;
-      date: string;
-      author: string;
-      viContent: string;
-      zhContent: string;
-      categoryName: string;
-      sentiment: "positive" | "neutral" | "negative";
-      topKeywords: string[];
-    }>;
-    wordFrequency: Array<{ word: string; count: number }>;
-    sentimentSummary: {
-      positive: number;
-      neutral: number;
-      negative: number;
-    };
-    topicDistribution: Record<string, number>;
-  }> => {
+    taxonomy: TaxonomySnapshot,
+    onProgress?: (stage: string, current: number, total: number) => void,
+    signal?: AbortSignal
+  ): Promise<AnalysisResult> => {
+    // Model lúc bắt đầu phân tích (đã resolve model mặc định của server) -
+    // ghi vào kết quả / export
+    const model = await resolveModel();
     onProgress?.("reading", 0, 100);
 
     // 1. Đọc file Excel (tái sử dụng logic từ classifyCommentsFromExcel)
@@ -962,70 +1054,53 @@ ${batch.map((c) => `[${c.index}] ${c.content}`).join("\n")}`;
       "� Đang phân tích song song: Tần suất từ + Cảm xúc + Chủ đề..."
     );
 
-    const sentimentResults: Array<{
-      index: number;
-      sentiment: "positive" | "neutral" | "negative";
-    }> = [];
-    const topicResults: Array<{ index: number; categoryName: string }> = [];
-
-    // Process batches với Promise.all() cho sentiment + topic
-    for (let i = 0; i < comments.length; i += BATCH_SIZE) {
-      const batch = comments.slice(i, i + BATCH_SIZE).map((c) => ({
-        index: c.index,
-        content: c.zhContent,
-      }));
-
-      const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
-      console.log(`→ Đang xử lý ${batchNumber}/${totalBatches}...`);
-
-      // 🔥 1 API CALL duy nhất cho cả sentiment + topic (giảm 50% tokens!)
-      const batchResult = await analyzeSentimentAndTopicBatch(batch);
-
-      // 🔍 Validate: Đảm bảo AI trả về đủ data cho tất cả comments
-      if (batchResult.length !== batch.length) {
-        console.warn(
-          `⚠️ AI trả về thiếu data! Expected ${batch.length}, got ${batchResult.length}`
-        );
-        // Fill missing với default values
-        const receivedIndices = new Set(batchResult.map((r) => r.index));
-        batch.forEach((comment) => {
-          if (!receivedIndices.has(comment.index)) {
-            console.warn(`⚠️ Missing data for comment index ${comment.index}`);
-            batchResult.push({
-              index: comment.index,
-              sentiment: "neutral",
-              categoryName: "未分类",
-            });
-          }
-        });
-      }
-
-      // Tách kết quả
-      const sentimentBatch = batchResult.map((r) => ({
-        index: r.index,
-        sentiment: r.sentiment,
-      }));
-      const topicBatch = batchResult.map((r) => ({
-        index: r.index,
-        categoryName: r.categoryName,
-      }));
-
-      sentimentResults.push(...sentimentBatch);
-      topicResults.push(...topicBatch);
-
-      onProgress?.("analyzing", 20 + (i / comments.length) * 60, 100);
+    // Process batches song song qua scheduler cho sentiment + topic
+    const failures: LlmBatchFailure[] = [];
+    const batchResults = await runBatches(
+      comments.map((c) => ({ index: c.index, content: c.zhContent })),
+      BATCH_SIZE,
+      async (batch, batchNumber, batchSignal) => {
+        console.log(`→ Đang xử lý ${batchNumber}/${totalBatches}...`);
+
+        // 🔥 1 API CALL duy nhất cho cả sentiment + topic (giảm 50% tokens!)
+        // 🔍 Phần tử thiếu / sai được gửi lại theo batch nhỏ hơn
+        return analyzeBatchWithRepair(batch, taxonomy, failures, batchSignal);
+      },
+      (doneCount) =>
+        onProgress?.("analyzing", 20 + (doneCount / comments.length) * 60, 100),
+      signal
+    );
 
-      // Delay giữa các batch
-      if (i + BATCH_SIZE < comments.length) {
-        await new Promise((resolve) => setTimeout(resolve, 3000));
-      }
+    if (signal?.aborted) {
+      console.warn(
+        `⏹ Đã huỷ - giữ ${batchResults.length} comments đã phân tích`
+      );
     }
 
+    // Tách kết quả
+    const sentimentResults = batchResults.map((r) => ({
+      index: r.index,
+      sentiment: r.sentiment,
+    }));
+    const topicResults = batchResults.map((r) => ({
+      index: r.index,
+      categoryName: r.categoryName,
+    }));
+
     // Word frequency - Sample 200 comments để nhanh hơn
+    // Đã huỷ → bỏ qua AI, dùng fallback đếm từ local bên dưới
     console.log("🔤 Đang phân tích tần suất từ...");
-    const wordFrequency = await analyzeWordFrequency(
-      comments.map((c) => c.zhContent)
-    );
+    const wordFrequency: Array<{ word: string; count: number }> =
+      signal?.aborted
+        ? []
+        : await analyzeWordFrequency(
+            comments.map((c) => c.zhContent),
+            taxonomy,
+            signal
+          ).catch((error) => {
+            if (isAbortError(error)) return [];
+            throw error;
+          });
 
     // 🔍 Validate word frequency
     if (wordFrequency.length === 0) {
@@ -1067,14 +1142,11 @@ ${batch.map((c) => `[${c.index}] ${c.content}`).join("\n")}`;
       topicResults.map((t) => [t.index, t.categoryName])
     );
 
-    // 🔍 Validate mapping coverage
-    const missingComments = comments.filter(
-      (c) => !sentimentMap.has(c.index) || !topicMap.has(c.index)
-    );
-    if (missingComments.length > 0) {
+    // 🔍 Comment vẫn lỗi sau khi gửi lại - báo cáo cho UI thử lại riêng
+    if (failures.length > 0) {
       console.warn(
-        `⚠️ ${missingComments.length} comments missing sentiment/topic data!`,
-        missingComments.slice(0, 3).map((c) => c.index)
+        `⚠️ ${failures.length} comments vẫn lỗi sentiment/topic sau khi gửi lại`,
+        failures.slice(0, 3)
       );
     }
 
@@ -1082,10 +1154,16 @@ ${batch.map((c) => `[${c.index}] ${c.content}`).join("\n")}`;
     const topWords = wordFrequency.slice(0, 50).map((wf) => wf.word);
     console.log(`🔑 Using top ${topWords.length} keywords for mapping`);
 
-    const finalComments = comments.map((comment) => {
+    // Đã huỷ → chỉ giữ comment thuộc các batch đã phân tích xong
+    const analyzedComments = signal?.aborted
+      ? comments.filter((c) => sentimentMap.has(c.index))
+      : comments;
+
+    const finalComments = analyzedComments.map((comment): AnalysisComment => {
       // O(1) Map lookup thay vì O(n) find()
       const sentiment = sentimentMap.get(comment.index) || "neutral";
-      const categoryName = topicMap.get(comment.index) || "未分类";
+      const categoryName =
+        topicMap.get(comment.index) || UNCATEGORIZED_LABEL;
 
       // O(k) với k=50 top words thay vì O(n) filter trên toàn bộ wordFrequency
       let commentWords = topWords
@@ -1125,18 +1203,10 @@ ${batch.map((c) => `[${c.index}] ${c.content}`).join("\n")}`;
     });
 
     // 6. Tính toán thống kê - OPTIMIZED: O(3n) -> O(n) với single pass
-    const sentimentSummary = { positive: 0, neutral: 0, negative: 0 };
-    const topicDistribution: Record<string, number> = {};
-
-    // Single pass O(n) thay vì 3 lần filter() O(3n)
-    sentimentResults.forEach((s) => {
-      sentimentSummary[s.sentiment]++;
-    });
-
-    topicResults.forEach((t) => {
-      topicDistribution[t.categoryName] =
-        (topicDistribution[t.categoryName] || 0) + 1;
-    });
+    const { sentimentSummary, topicDistribution } = summarizeAnalysis(
+      finalComments,
+      taxonomy
+    );
 
     onProgress?.("complete", 100, 100);
 
@@ -1178,14 +1248,61 @@ ${batch.map((c) => `[${c.index}] ${c.content}`).join("\n")}`;
       wordFrequency,
       sentimentSummary,
       topicDistribution,
+      taxonomy,
+      model,
+      failures,
+    };
+  };
+
+  // Gửi lại riêng các comment còn lỗi của một lần phân tích, cập nhật thống
+  // kê. Huỷ giữa chừng → comment chưa gửi lại vẫn nằm trong failures
+  const retryFailedAnalysis = async (
+    result: AnalysisResult,
+    onProgress?: (current: number, total: number) => void,
+    signal?: AbortSignal
+  ): Promise<AnalysisResult> => {
+    const BATCH_SIZE = 150; // Optimal batch size
+    const failures: LlmBatchFailure[] = [];
+    const retried = await runBatches(
+      result.failures.map((f) => ({ index: f.index, content: f.content })),
+      BATCH_SIZE,
+      (batch, _batchNumber, batchSignal) =>
+        analyzeBatchWithRepair(batch, result.taxonomy, failures, batchSignal),
+      (doneCount) => onProgress?.(doneCount, result.failures.length),
+      signal
+    );
+
+    const retriedMap = new Map(retried.map((r) => [r.index, r]));
+    const comments = result.comments.map((comment) => {
+      const retriedComment = retriedMap.get(comment.index);
+      return retriedComment
+        ? {
+            ...comment,
+            sentiment: retriedComment.sentiment,
+            categoryName: retriedComment.categoryName,
+          }
+        : comment;
+    });
+
+    return {
+      ...result,
+      comments,
+      ...summarizeAnalysis(comments, result.taxonomy),
+      failures: [
+        ...failures,
+        ...result.failures.filter((f) => !retriedMap.has(f.index)),
+      ],
     };
   };
 
   return {
     translateCommentsFromExcel,
+    retryFailedTranslations,
     classifyCommentsFromExcel,
+    retryFailedClassification,
     analyzeWordFrequency,
     analyzeSentimentBatch,
     analyzeCommentsFromExcel,
+    retryFailedAnalysis,
   };
 };
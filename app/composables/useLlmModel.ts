@@ -0,0 +1,72 @@
+// composables/useLlmModel.ts
+import type { LlmModelOption } from "../types/llm";
+
+// Model chọn cho dịch / phân tích - nhớ qua các lần tải lại trang
+const STORAGE_KEY = "yt-cmt-filter:llm-model";
+
+// Dùng chung giữa ô chọn model và useGemini
+const models = ref<LlmModelOption[]>([]);
+const selectedModel = ref("");
+const loadError = ref<string | null>(null);
+let loadPromise: Promise<void> | null = null;
+
+const loadModels = async () => {
+  try {
+    const response = await $fetch<{
+      models: LlmModelOption[];
+      defaultModel: string;
+    }>("/api/llm/models");
+    models.value = response.models;
+    loadError.value = null;
+
+    // Model đã nhớ không còn cấu hình → về model mặc định của server
+    const stored = localStorage.getItem(STORAGE_KEY);
+    selectedModel.value =
+      stored && response.models.some((model) => model.id === stored)
+        ? stored
+        : response.defaultModel;
+  } catch (error) {
+    console.warn("Không thể lấy danh sách model:", error);
+    loadError.value = (error as Error).message;
+    loadPromise = null;
+  }
+};
+
+// Model request thực sự dùng: model đang chọn, chưa tải xong danh sách thì
+// chờ (model mặc định của server). Khoá bộ nhớ dịch / ghi vào kết quả theo
+// model này, không theo nhãn "default" chung chung
+const resolveModel = async (): Promise<string> => {
+  if (!selectedModel.value) {
+    loadPromise = loadPromise || loadModels();
+    await loadPromise;
+  }
+  if (!selectedModel.value) {
+    throw new Error(
+      `Không xác định được model LLM: ${loadError.value || "không rõ lỗi"}`
+    );
+  }
+  return selectedModel.value;
+};
+
+export const useLlmModel = () => {
+  if (!loadPromise && typeof localStorage !== "undefined") {
+    loadPromise = loadModels();
+  }
+
+  const selectModel = (id: string) => {
+    selectedModel.value = id;
+    localStorage.setItem(STORAGE_KEY, id);
+  };
+
+  // Provider mock chạy offline ngay trên server - không cần giới hạn tốc độ
+  const isMockModel = computed(() => selectedModel.value.startsWith("mock:"));
+
+  return {
+    models,
+    selectedModel,
+    isMockModel,
+    loadError,
+    selectModel,
+    resolveModel,
+  };
+};
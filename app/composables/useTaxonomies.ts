@@ -0,0 +1,122 @@
+// composables/useTaxonomies.ts
+import type {
+  Taxonomy,
+  TaxonomyCategory,
+  TaxonomySnapshot,
+  TaxonomyVersion,
+} from "../types/taxonomy";
+import {
+  cleanCategories,
+  createDefaultTaxonomy,
+  createTaxonomy as buildTaxonomy,
+  getLatestVersion,
+  isSameCategories,
+  toTaxonomySnapshot,
+  validateCategories,
+} from "../utils/taxonomy";
+
+// Bộ chủ đề lưu theo project (useClassifierProject) - project chưa có bộ
+// nào dùng bộ Tây Du Ký mặc định. Mỗi lần lưu thêm một phiên bản, phiên bản
+// cũ giữ nguyên để tái lập kết quả phân tích đã export
+export const useTaxonomies = () => {
+  const { project, updateProject } = useClassifierProject();
+
+  const taxonomies = computed<Taxonomy[]>(() =>
+    project.value.taxonomies?.length
+      ? project.value.taxonomies
+      : [createDefaultTaxonomy()]
+  );
+
+  const activeTaxonomy = computed<Taxonomy>(
+    () =>
+      taxonomies.value.find((t) => t.id === project.value.activeTaxonomyId) ||
+      taxonomies.value[0]!
+  );
+
+  // Phiên bản mới nhất của bộ đang chọn - gửi kèm request phân tích
+  const activeSnapshot = computed<TaxonomySnapshot>(() =>
+    toTaxonomySnapshot(activeTaxonomy.value)
+  );
+
+  const saveTaxonomies = (list: Taxonomy[], activeTaxonomyId?: string) =>
+    updateProject({
+      taxonomies: list,
+      activeTaxonomyId: activeTaxonomyId ?? activeTaxonomy.value.id,
+    });
+
+  const selectTaxonomy = (id: string) =>
+    saveTaxonomies(taxonomies.value, id);
+
+  // Nhân bản bộ đang chọn (mặc định) hoặc tạo bộ trống
+  const createTaxonomy = async (name: string, duplicate = true) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    const taxonomy = buildTaxonomy(
+      trimmed,
+      duplicate ? getLatestVersion(activeTaxonomy.value).categories : undefined
+    );
+    await saveTaxonomies([...taxonomies.value, taxonomy], taxonomy.id);
+  };
+
+  const appendVersion = async (categories: TaxonomyCategory[]) => {
+    const current = activeTaxonomy.value;
+    const version: TaxonomyVersion = {
+      version: getLatestVersion(current).version + 1,
+      savedAt: new Date().toISOString(),
+      categories: cleanCategories(categories),
+    };
+    await saveTaxonomies(
+      taxonomies.value.map((t) =>
+        t.id === current.id ? { ...t, versions: [...t.versions, version] } : t
+      )
+    );
+    return version;
+  };
+
+  // Không hợp lệ → ném lỗi cho UI; không đổi gì → không tạo phiên bản mới
+  const saveVersion = async (
+    categories: TaxonomyCategory[]
+  ): Promise<TaxonomyVersion | null> => {
+    const error = validateCategories(categories);
+    if (error) throw new Error(error);
+
+    if (
+      isSameCategories(
+        categories,
+        getLatestVersion(activeTaxonomy.value).categories
+      )
+    ) {
+      return null;
+    }
+    return appendVersion(categories);
+  };
+
+  // Khôi phục = lưu nội dung phiên bản cũ thành phiên bản mới nhất
+  const restoreVersion = async (version: number) => {
+    const target = activeTaxonomy.value.versions.find(
+      (v) => v.version === version
+    );
+    if (!target) return null;
+    return saveVersion(target.categories);
+  };
+
+  // Xoá hết → project quay về bộ mặc định
+  const deleteTaxonomy = async () => {
+    const list = taxonomies.value.filter(
+      (t) => t.id !== activeTaxonomy.value.id
+    );
+    await saveTaxonomies(list, list[0]?.id ?? "");
+  };
+
+  return {
+    taxonomies,
+    activeTaxonomy,
+    activeSnapshot,
+    selectTaxonomy,
+    createTaxonomy,
+    saveVersion,
+    restoreVersion,
+    deleteTaxonomy,
+  };
+};
@@ -0,0 +1,110 @@
+// composables/useTranslationMemory.ts
+import type { TranslationMemoryEntry } from "../types/translation";
+import {
+  idbClear,
+  idbCount,
+  idbGetAll,
+  idbGetMany,
+  idbSetMany,
+} from "../utils/idb";
+import {
+  createTranslationMemoryFile,
+  parseTranslationMemoryFile,
+  translationMemoryKey,
+} from "../utils/translationMemory";
+
+type MemoryQuery = Pick<
+  TranslationMemoryEntry,
+  "model" | "source" | "target" | "text"
+>;
+
+// Bộ nhớ dịch lưu IndexedDB (store "translations", key theo
+// translationMemoryKey) - dùng chung giữa useGemini và panel quản lý
+const entryCount = ref(0);
+
+const refreshCount = async () => {
+  try {
+    entryCount.value = await idbCount("translations");
+  } catch (error) {
+    console.warn("Không thể đếm bộ nhớ dịch:", error);
+  }
+};
+
+export const useTranslationMemory = () => {
+  // Lỗi đọc → coi như chưa có bản dịch (vẫn dịch qua API bình thường)
+  const lookup = async (
+    queries: MemoryQuery[]
+  ): Promise<Array<string | undefined>> => {
+    try {
+      const entries = await idbGetMany<TranslationMemoryEntry>(
+        "translations",
+        queries.map(translationMemoryKey)
+      );
+      return entries.map((entry) => entry?.translation);
+    } catch (error) {
+      console.warn("Không thể đọc bộ nhớ dịch:", error);
+      return queries.map(() => undefined);
+    }
+  };
+
+  const remember = async (entries: TranslationMemoryEntry[]) => {
+    try {
+      await idbSetMany(
+        "translations",
+        entries.map((entry) => [translationMemoryKey(entry), entry])
+      );
+      await refreshCount();
+    } catch (error) {
+      console.warn("Không thể lưu bộ nhớ dịch:", error);
+    }
+  };
+
+  const exportMemory = async (): Promise<number> => {
+    const entries = await idbGetAll<TranslationMemoryEntry>("translations");
+    const blob = new Blob(
+      [JSON.stringify(createTranslationMemoryFile(entries), null, 2)],
+      { type: "application/json" }
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `translation_memory_${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    return entries.length;
+  };
+
+  // Gộp vào bộ nhớ hiện có: trùng key thì giữ bản cập nhật sau cùng
+  // Trả về số mục được ghi - lỗi định dạng ném Error để UI báo
+  const importMemory = async (file: File): Promise<number> => {
+    const imported = parseTranslationMemoryFile(await file.text());
+    const current = await idbGetMany<TranslationMemoryEntry>(
+      "translations",
+      imported.map(translationMemoryKey)
+    );
+    const newer = imported.filter(
+      (entry, i) => !current[i] || current[i]!.updatedAt < entry.updatedAt
+    );
+    await idbSetMany(
+      "translations",
+      newer.map((entry) => [translationMemoryKey(entry), entry])
+    );
+    await refreshCount();
+    return newer.length;
+  };
+
+  const clearMemory = async () => {
+    await idbClear("translations");
+    await refreshCount();
+  };
+
+  return {
+    entryCount,
+    refreshCount,
+    lookup,
+    remember,
+    exportMemory,
+    importMemory,
+    clearMemory,
+  };
+};
@@ -1,31 +1,151 @@
 // composables/useYouTubeData.ts
-import { useRuntimeConfig } from "nuxt/app";
 import type { YouTubeComment, VideoData } from "../types/comment";
+import type {
+  CrawlJobStatus,
+  CrawlOptions,
+  CrawlScope,
+  CrawlTarget,
+  QuotaEstimate,
+  VideoCrawlProgress,
+} from "../types/crawl";
+import { isAbortError } from "../utils/abort";
+import {
+  getScopeWindow,
+  hasCrawlScope,
+  matchesCrawlScope,
+} from "../utils/crawlScope";
 import { estimateCommentRange } from "../utils/format";
+import { detectLanguage } from "../utils/language";
+import {
+  QuotaExhaustedError,
+  createQuotaTracker,
+  estimateCrawlQuota,
+  type QuotaTracker,
+  type QuotaUsage,
+  type YouTubeResource,
+} from "../utils/quota";
+import { annotateSpam } from "../utils/spamDetection";
+import {
+  buildVideoUrl,
+  isCustomChannelUrl,
+  parseYouTubeTargets,
+} from "../utils/youtube";
+import { useApiScheduler } from "./useApiScheduler";
+import { useCrawlCheckpoint } from "./useCrawlCheckpoint";
+import { useCrawlSnapshot } from "./useCrawlSnapshot";
+
+// Lỗi $fetch từ server/api/youtube/* - body gốc của YouTube nằm trong data
+interface YouTubeApiFetchError {
+  response?: {
+    status?: number;
+    _data?: {
+      data?: {
+        error?: {
+          errors?: Array<{ reason?: string }>;
+        };
+      };
+    };
+  };
+}
+
+const getErrorReason = (error: unknown): string | undefined =>
+  (error as YouTubeApiFetchError).response?._data?.data?.error?.errors?.[0]
+    ?.reason;
+
+// 403 do gọi quá nhanh (khác hết quota ngày) → scheduler giảm tốc và retry
+const RATE_LIMIT_REASONS = new Set([
+  "rateLimitExceeded",
+  "userRateLimitExceeded",
+]);
+
+const isRateLimitError = (error: unknown): boolean =>
+  RATE_LIMIT_REASONS.has(getErrorReason(error) || "");
+
+// Budget của job hoặc 403 quotaExceeded → tạm dừng thay vì báo lỗi
+const toQuotaError = (error: unknown): QuotaExhaustedError | null => {
+  if (error instanceof QuotaExhaustedError) return error;
+  if (getErrorReason(error) === "quotaExceeded") {
+    return new QuotaExhaustedError("quota");
+  }
+  return null;
+};
+
+// Huỷ / hết quota → dừng cả job nhưng giữ kết quả dở dang để resume
+const toStopState = (
+  error: unknown
+): { status: CrawlJobStatus; reason: string } | null => {
+  if (isAbortError(error)) {
+    return { status: "cancelled", reason: "Đã huỷ crawl" };
+  }
+  const quotaError = toQuotaError(error);
+  return quotaError ? { status: "paused", reason: quotaError.message } : null;
+};
 
 interface YouTubeApiVideoResponse {
   items: Array<{
     snippet: {
       title: string;
+      description?: string;
+      publishedAt: string;
+      channelId: string;
+      channelTitle: string;
+      tags?: string[];
+      thumbnails?: Record<string, { url: string } | undefined>;
+    };
+    contentDetails?: {
+      duration?: string;
     };
     statistics: {
+      viewCount?: string;
+      likeCount?: string;
       commentCount?: string;
     };
   }>;
 }
 
+interface YouTubeApiPlaylistItemsResponse {
+  items: Array<{
+    contentDetails: {
+      videoId: string;
+    };
+  }>;
+  nextPageToken?: string;
+}
+
+interface YouTubeApiChannelResponse {
+  items?: Array<{
+    id: string;
+    contentDetails: {
+      relatedPlaylists: {
+        uploads: string;
+      };
+    };
+  }>;
+}
+
+// Snippet chung của comment cha và reply
+// channelId = channel của video → so với authorChannelId để biết creator
+interface YouTubeApiCommentSnippet {
+  channelId?: string;
+  publishedAt: string;
+  updatedAt?: string;
+  authorDisplayName: string;
+  authorProfileImageUrl?: string;
+  authorChannelId?: { value: string };
+  textDisplay: string;
+  textOriginal?: string;
+  parentId?: string;
+  likeCount: number;
+}
+
 interface YouTubeApiCommentThreadResponse {
   items: Array<{
     id: string;
     snippet: {
+      canReply?: boolean;
       totalReplyCount: number;
       topLevelComment: {
-        snippet: {
-          publishedAt: string;
-          authorDisplayName: string;
-          textDisplay: string;
-          likeCount: number;
-        };
+        snippet: YouTubeApiCommentSnippet;
       };
     };
   }>;
@@ -35,52 +155,126 @@ interface YouTubeApiCommentThreadResponse {
 interface YouTubeApiCommentResponse {
   items: Array<{
     id: string;
-    snippet: {
-      publishedAt: string;
-      authorDisplayName: string;
-      textDisplay: string;
-      likeCount: number;
-    };
+    snippet: YouTubeApiCommentSnippet;
   }>;
   nextPageToken?: string;
 }
 
+// Snippet → YouTubeComment (replyCount / canReply do thread bổ sung)
+const toComment = (
+  id: string,
+  snippet: YouTubeApiCommentSnippet,
+  videoId: string
+): YouTubeComment => {
+  const date = new Date(snippet.publishedAt);
+  const updatedAt = new Date(snippet.updatedAt || snippet.publishedAt);
+  const authorChannelId = snippet.authorChannelId?.value;
+
+  return {
+    id,
+    date,
+    author: snippet.authorDisplayName,
+    content: snippet.textDisplay,
+    textOriginal: snippet.textOriginal,
+    likeCount: snippet.likeCount || 0,
+    replyCount: 0,
+    language: detectLanguage(snippet.textDisplay),
+    videoId,
+    authorChannelId,
+    authorProfileImageUrl: snippet.authorProfileImageUrl,
+    updatedAt,
+    isEdited: updatedAt.getTime() > date.getTime(),
+    parentId: snippet.parentId,
+    isCreator: !!authorChannelId && authorChannelId === snippet.channelId,
+    replies: [],
+  };
+};
+
 export const useYouTubeData = () => {
-  const config = useRuntimeConfig();
-  const apiKey = config.public.youtubeApiKey;
-
-  // Lấy video ID từ URL
-  const extractVideoId = (url: string): string | null => {
-    const regex = /(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&\n?#]+)/;
-    const match = url.match(regex);
-    return match ? match[1] : null;
+  // Mọi request đi qua server/api/youtube/* - API key chỉ nằm ở server
+  const { loadCheckpoint, saveCheckpoint, loadJob, saveJob, clearJob } =
+    useCrawlCheckpoint();
+  const { loadSnapshot, saveSnapshot } = useCrawlSnapshot();
+  const { youtube: scheduler } = useApiScheduler();
+
+  // Giới hạn số video lấy từ mỗi playlist / channel
+  const MAX_VIDEOS_PER_SOURCE = 50;
+
+  // Quota tracker của job đang chạy (fetchVideoData)
+  let activeQuota: QuotaTracker | null = null;
+  // Phiên replay fixture của job đang chạy - server đếm lượt phát theo phiên
+  // nên mỗi lần chạy lại nhận đúng chuỗi response đã ghi (live bỏ qua)
+  let replaySession: string | null = null;
+  const createReplaySession = () =>
+    `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+  // Mọi request YouTube đi qua đây: scheduler chung (tốc độ, concurrency,
+  // retry) + đếm quota từng lần gọi thật và chặn khi vượt budget
+  const callApi = <T>(
+    resource: YouTubeResource,
+    params: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<T> => {
+    return scheduler.run(
+      () => {
+        activeQuota?.charge(resource);
+        // Kiểu route suy từ Nitro không gán được về T generic → ép kiểu
+        return $fetch(`/api/youtube/${resource}`, {
+          params,
+          signal,
+          headers: replaySession
+            ? { "x-replay-session": replaySession }
+            : undefined,
+        }) as Promise<T>;
+      },
+      { signal, isThrottled: isRateLimitError }
+    );
   };
 
   // Lấy thông tin video
-  const getVideoDetails = async (videoId: string) => {
+  const getVideoDetails = async (videoId: string, signal?: AbortSignal) => {
     try {
-      const response = await $fetch<YouTubeApiVideoResponse>(
-        `https://www.googleapis.com/youtube/v3/videos`,
+      const response = await callApi<YouTubeApiVideoResponse>(
+        "videos",
         {
-          params: {
-            id: videoId,
-            key: apiKey,
-            part: "snippet,statistics",
-          },
-        }
+          id: videoId,
+          part: "snippet,statistics,contentDetails",
+        },
+        signal
       );
 
-      if (!response.items || response.items.length === 0) {
+      const video = response.items?.[0];
+      if (!video) {
         throw new Error("Video không tồn tại hoặc bị hạn chế");
       }
 
-      const video = response.items[0];
+      const { snippet, statistics } = video;
+      const thumbnail =
+        snippet.thumbnails?.medium ||
+        snippet.thumbnails?.high ||
+        snippet.thumbnails?.default;
       return {
-        title: video?.snippet.title,
-        commentCount: parseInt(video?.statistics.commentCount || "0"),
+        title: snippet.title,
+        commentCount: parseInt(statistics.commentCount || "0"),
+        channelId: snippet.channelId,
+        channelTitle: snippet.channelTitle,
+        publishedAt: snippet.publishedAt,
+        description: snippet.description || "",
+        tags: snippet.tags || [],
+        thumbnailUrl: thumbnail?.url,
+        duration: video.contentDetails?.duration || "",
+        viewCount: parseInt(statistics.viewCount || "0"),
+        likeCount:
+          statistics.likeCount === undefined
+            ? undefined
+            : parseInt(statistics.likeCount),
       };
     } catch (error: unknown) {
-      const err = error as { response?: { status?: number } };
+      if (isAbortError(error)) throw error;
+      const quotaError = toQuotaError(error);
+      if (quotaError) throw quotaError;
+
+      const err = error as YouTubeApiFetchError;
       if (err.response?.status === 403) {
         throw new Error("API Key không hợp lệ hoặc đã hết quota");
       }
@@ -90,67 +284,32 @@ export const useYouTubeData = () => {
     }
   };
 
-  // Helper: Retry với exponential backoff
-  const fetchWithRetry = async <T>(
-    fetchFn: () => Promise<T>,
-    maxRetries = 3,
-    initialDelay = 1000
-  ): Promise<T> => {
-    let lastError: Error | null = null;
-
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        return await fetchFn();
-      } catch (error) {
-        lastError = error as Error;
-        const delay = initialDelay * Math.pow(2, attempt); // Exponential backoff
-
-        console.warn(
-          `Retry ${attempt + 1}/${maxRetries} sau ${delay}ms...`,
-          error
-        );
-
-        // Chờ trước khi retry
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
-    }
-
-    throw lastError || new Error("Failed after retries");
-  };
-
   // Lấy replies cho một comment cha
-  const getReplies = async (parentId: string): Promise<YouTubeComment[]> => {
+  const getReplies = async (
+    parentId: string,
+    videoId: string,
+    signal?: AbortSignal
+  ): Promise<YouTubeComment[]> => {
     const replies: YouTubeComment[] = [];
     let pageToken: string | undefined = undefined;
 
     do {
-      const response = await fetchWithRetry(() =>
-        $fetch<YouTubeApiCommentResponse>(
-          "https://www.googleapis.com/youtube/v3/comments",
+      const response: YouTubeApiCommentResponse =
+        await callApi<YouTubeApiCommentResponse>(
+          "comments",
           {
-            params: {
-              parentId,
-              key: apiKey,
-              part: "snippet",
-              maxResults: 100,
-              pageToken,
-            },
-          }
-        )
-      );
+            parentId,
+            part: "snippet",
+            maxResults: 100,
+            pageToken,
+          },
+          signal
+        );
 
       if (response.items) {
         response.items.forEach((item) => {
-          const snippet = item.snippet;
-          replies.push({
-            id: item.id,
-            date: new Date(snippet.publishedAt),
-            author: snippet.authorDisplayName,
-            content: snippet.textDisplay,
-            likeCount: snippet.likeCount || 0,
-            replyCount: 0, // replies không có replies con
-            replies: [],
-          });
+          // replies không có replies con (replyCount = 0)
+          replies.push(toComment(item.id, item.snippet, videoId));
         });
       }
 
@@ -161,93 +320,212 @@ export const useYouTubeData = () => {
   };
 
   // Lấy comments cha + replies (nếu có) - OPTIMIZED O(n)
+  // Sau mỗi page / batch replies sẽ gọi onCheckpoint để có thể resume từ đó
+  // Incremental (options.previous): order "time" → dừng ở page chứa comment đã
+  // biết, gộp với snapshot cũ và đánh dấu isNew cho comment / reply mới;
+  // số reply của thread cũ tra lại theo lô ID để lấy reply mới ở thread cũ
+  // Scope (options.scope): searchTerms lọc ở phía API, comment ngoài khung
+  // thời gian / dưới minLikes bị bỏ qua; cũ hơn publishedAfter → dừng paging
   const getComments = async (
     videoId: string,
     maxResults = 100,
-    onProgress?: (current: number, total: number) => void
+    onProgress?: (current: number, total: number) => void,
+    options: CrawlOptions = {}
   ): Promise<YouTubeComment[]> => {
-    const comments: YouTubeComment[] = [];
-    let pageToken: string | undefined = undefined;
-    let pageCount = 0;
-    const BATCH_SIZE = 10; // Fetch 10 replies cùng lúc
+    const { resumeFrom, onCheckpoint, previous, signal, scope } = options;
+    const comments: YouTubeComment[] = resumeFrom ? resumeFrom.comments : [];
+    let pageToken: string | undefined = resumeFrom?.pageToken;
+    let pageCount = resumeFrom?.pageCount || 0;
+    let threadsDone = resumeFrom?.phase === "replies";
+    // Số thread mỗi lần lưu checkpoint - số request song song do scheduler
+    // điều chỉnh theo phản hồi của API
+    const BATCH_SIZE = 50;
 
-    // Dedupe tracking - O(1) lookup
-    const seenIds = new Set<string>();
-    const seenContents = new Set<string>();
+    // Dedupe theo ID (khôi phục từ checkpoint nếu resume) - trùng nội dung
+    // xử lý sau crawl bằng utils/dedupe.ts để có báo cáo và tuỳ chọn chiến lược
+    const seenIds = new Set<string>(comments.map((c) => c.id));
     let duplicateCount = 0;
+    let outOfScopeCount = 0;
+    const scopeWindow = getScopeWindow(scope);
+    const searchTerms = scope?.searchTerms?.trim() || undefined;
+
+    // Incremental: ID thread đã biết + totalReplyCount mới trên YouTube
+    const knownThreads = new Set<string>((previous || []).map((c) => c.id));
+    const refreshedReplyCounts = new Map<string, number>();
+    const previousReplyIds = new Map<string, Set<string>>(
+      (previous || []).map((c) => [
+        c.id,
+        new Set((c.replies || []).map((r) => r.id)),
+      ])
+    );
+
+    // Thread cũ nằm sâu hơn page đã đọc vẫn có thể có reply mới → lấy
+    // totalReplyCount hiện tại theo lô 50 ID (commentThreads.list?id=,
+    // 1 unit / lô). Thread đã bị xoá / lô lỗi → giữ số cũ
+    const refreshReplyCounts = async () => {
+      const staleIds = (previous || [])
+        .map((c) => c.id)
+        .filter((id) => !refreshedReplyCounts.has(id));
+      const requests: Promise<void>[] = [];
+      for (let i = 0; i < staleIds.length; i += 50) {
+        requests.push(
+          callApi<YouTubeApiCommentThreadResponse>(
+            "comment-threads",
+            { id: staleIds.slice(i, i + 50).join(","), part: "snippet" },
+            signal
+          )
+            .then((response) =>
+              response.items?.forEach((item) =>
+                refreshedReplyCounts.set(
+                  item.id,
+                  item.snippet.totalReplyCount || 0
+                )
+              )
+            )
+            .catch((error) => {
+              // Huỷ / hết quota → dừng crawl như phase replies; lỗi khác chỉ
+              // bỏ qua lô này (giữ số reply cũ)
+              if (
+                isAbortError(error) ||
+                error instanceof QuotaExhaustedError ||
+                (error as YouTubeApiFetchError).response?.status === 403
+              ) {
+                throw error;
+              }
+              console.error("Lỗi khi tra số reply của thread cũ:", error);
+            })
+        );
+      }
+      await Promise.all(requests);
+    };
+
+    // Kết thúc phase 1: gộp snapshot cũ vào sau comment mới (giữ thứ tự time)
+    // rồi trả về các thread cần fetch replies (mới + cũ có số reply đổi)
+    const finishThreads = async (): Promise<string[]> => {
+      await refreshReplyCounts();
+      const pending = comments.filter((c) => c.replyCount > 0).map((c) => c.id);
+
+      (previous || []).forEach((prev) => {
+        const replyCount = refreshedReplyCounts.get(prev.id) ?? prev.replyCount;
+        comments.push({
+          ...prev,
+          replyCount,
+          isNew: false,
+          replies: (prev.replies || []).map((r) => ({ ...r, isNew: false })),
+        });
+        if (replyCount !== prev.replyCount && replyCount > 0) {
+          pending.push(prev.id);
+        }
+      });
+
+      return pending;
+    };
+
+    // Thread chờ fetch replies khi chuyển sang phase 2
+    let pendingIds: string[] =
+      resumeFrom?.phase === "replies" ? resumeFrom.pendingReplyIds : [];
+
+    if (previous) {
+      console.log(
+        `↻ Incremental crawl: snapshot trước có ${previous.length} comment cha`
+      );
+    }
+
+    if (resumeFrom) {
+      console.log(
+        `↻ Tiếp tục crawl từ checkpoint: ${comments.length} comment cha (phase ${resumeFrom.phase})`
+      );
+    }
 
     try {
       // Phase 1: Fetch tất cả comment cha (parent comments)
-      do {
+      while (!threadsDone) {
         pageCount++;
-        const response = await $fetch<YouTubeApiCommentThreadResponse>(
-          `https://www.googleapis.com/youtube/v3/commentThreads`,
-          {
-            params: {
+        const response: YouTubeApiCommentThreadResponse =
+          await callApi<YouTubeApiCommentThreadResponse>(
+            "comment-threads",
+            {
               videoId,
-              key: apiKey,
               part: "snippet",
               maxResults,
               pageToken,
               order: "time",
+              searchTerms,
             },
-          }
-        );
+            signal
+          );
 
         if (response.items) {
           for (const item of response.items) {
             const snippet = item.snippet.topLevelComment.snippet;
             const commentId = item.id;
-            const commentContent = snippet.textDisplay.trim();
+            const publishedAt = new Date(snippet.publishedAt).getTime();
 
-            // Kiểm tra trùng lặp ID hoặc content
-            if (seenIds.has(commentId) || seenContents.has(commentContent)) {
-              duplicateCount++;
-              continue;
+            // order "time": các comment sau đều cũ hơn → hết khung thời gian
+            if (publishedAt < scopeWindow.after) {
+              threadsDone = true;
+              break;
             }
 
-            // kiểm tra comment không phải là tiếng anh ( chỉ chấp nhận comment bằng tiếng việt)
-            const vietnameseRegex =
-              /[àáạảãâầấậẩẫăằắặẳẵèéẹẻẽêềếệểễìíịỉĩòóọỏõôồốộổỗơờớợởỡùúụủũưừứựửữỳýỵỷỹđ]/i;
-
-            if (!vietnameseRegex.test(commentContent)) {
-              console.log(
-                "Bỏ qua comment không có dấu tiếng Việt:",
-                commentContent
+            // Gặp thread đã có trong snapshot → các page sau đều cũ hơn
+            if (knownThreads.has(commentId)) {
+              refreshedReplyCounts.set(
+                commentId,
+                item.snippet.totalReplyCount || 0
               );
+              threadsDone = true;
               continue;
             }
 
-            // Thêm vào tracking sets
+            // Page bị trả lặp lại (resume / API) → trùng ID
+            if (seenIds.has(commentId)) {
+              duplicateCount++;
+              continue;
+            }
             seenIds.add(commentId);
-            seenContents.add(commentContent);
 
             const topComment: YouTubeComment = {
-              id: commentId,
-              date: new Date(snippet.publishedAt),
-              author: snippet.authorDisplayName,
-              content: snippet.textDisplay,
-              likeCount: snippet.likeCount || 0,
+              ...toComment(commentId, snippet, videoId),
               replyCount: item.snippet.totalReplyCount || 0,
-              replies: [],
+              canReply: item.snippet.canReply,
+              hasCreatorReply: false,
+              isNew: previous ? true : undefined,
             };
 
+            if (!matchesCrawlScope(topComment, scope)) {
+              outOfScopeCount++;
+              continue;
+            }
+
             comments.push(topComment);
           }
         }
 
         pageToken = response.nextPageToken;
+        threadsDone = threadsDone || !pageToken;
+        if (threadsDone) pendingIds = await finishThreads();
 
         // Log progress
         console.log(
           `Đã tải ${comments.length} comment cha (page ${pageCount})...`
         );
 
+        // Lưu checkpoint: page kế tiếp, hoặc chuyển sang phase replies
+        await onCheckpoint?.({
+          videoId,
+          phase: threadsDone ? "replies" : "threads",
+          pageToken: threadsDone ? undefined : pageToken,
+          pageCount,
+          comments,
+          pendingReplyIds: pendingIds,
+          updatedAt: new Date().toISOString(),
+        });
+
         // Update progress sau mỗi page
         if (onProgress) {
           onProgress(comments.length, -1);
         }
-      } while (pageToken);
+      }
 
       console.log(
         `✓ Hoàn thành fetch ${comments.length} comment cha. Bắt đầu fetch replies...`
@@ -257,36 +535,53 @@ export const useYouTubeData = () => {
         console.log(`⚠ Đã bỏ qua ${duplicateCount} comment cha trùng lặp`);
       }
 
-      // Phase 2: Batch fetch replies song song - O(n/BATCH_SIZE) thay vì O(n)
-      const commentsWithReplies = comments.filter((c) => c.replyCount > 0);
+      // Phase 2: Fetch replies song song qua scheduler, checkpoint theo batch
+      // Khi resume chỉ fetch những comment cha còn trong pendingReplyIds
+      const pendingReplyIds = new Set<string>(pendingIds);
+      const commentsWithReplies = comments.filter((c) =>
+        pendingReplyIds.has(c.id)
+      );
       console.log(
         `→ Cần fetch replies cho ${commentsWithReplies.length} comments`
       );
 
       let replyDuplicateCount = 0;
 
-      // Chia thành batches để tránh quá tải API
+      // Chia batch để checkpoint đều đặn khi crawl video lớn
       for (let i = 0; i < commentsWithReplies.length; i += BATCH_SIZE) {
         const batch = commentsWithReplies.slice(i, i + BATCH_SIZE);
 
-        // Fetch parallel trong batch
+        // Signal riêng của batch (nối với signal của job): lỗi dừng crawl ở
+        // một request → huỷ các request còn lại, không tốn thêm quota và
+        // không ghi kết quả sau khi job đã báo tạm dừng
+        const batchController = new AbortController();
+        const batchSignal = batchController.signal;
+        const onAbort = () => batchController.abort();
+        signal?.addEventListener("abort", onAbort, { once: true });
+        if (signal?.aborted) batchController.abort();
+
+        // Cả batch vào hàng đợi scheduler cùng lúc
         const repliesPromises = batch.map((comment) =>
-          getReplies(comment.id)
+          getReplies(comment.id, videoId, batchSignal)
             .then((replies) => {
-              // Dedupe replies
+              if (batchSignal.aborted) return comment;
+              // Dedupe replies theo ID
               const uniqueReplies: YouTubeComment[] = [];
               const replySeenIds = new Set<string>();
-              const replySeenContents = new Set<string>();
 
               replies.forEach((reply) => {
-                const replyContent = reply.content.trim();
+                if (!matchesCrawlScope(reply, scope)) {
+                  outOfScopeCount++;
+                  return;
+                }
 
-                if (
-                  !replySeenIds.has(reply.id) &&
-                  !replySeenContents.has(replyContent)
-                ) {
+                if (!replySeenIds.has(reply.id)) {
                   replySeenIds.add(reply.id);
-                  replySeenContents.add(replyContent);
+                  if (previous) {
+                    reply.isNew = !previousReplyIds
+                      .get(comment.id)
+                      ?.has(reply.id);
+                  }
                   uniqueReplies.push(reply);
                 } else {
                   replyDuplicateCount++;
@@ -294,18 +589,44 @@ export const useYouTubeData = () => {
               });
 
               comment.replies = uniqueReplies;
+              comment.hasCreatorReply = uniqueReplies.some((r) => r.isCreator);
+              pendingReplyIds.delete(comment.id);
               return comment;
             })
             .catch((error) => {
+              // Huỷ, 403 (hết quota / key lỗi) hoặc chạm budget → dừng
+              // crawl, giữ checkpoint để resume
+              if (
+                isAbortError(error) ||
+                error instanceof QuotaExhaustedError ||
+                (error as YouTubeApiFetchError).response?.status === 403
+              ) {
+                batchController.abort();
+                throw error;
+              }
               console.error(
                 `Lỗi khi fetch replies cho comment ${comment.id}:`,
                 error
               );
+              pendingReplyIds.delete(comment.id);
               return comment; // Giữ comment, bỏ qua replies lỗi
             })
         );
 
-        await Promise.all(repliesPromises);
+        try {
+          await Promise.all(repliesPromises);
+        } finally {
+          signal?.removeEventListener("abort", onAbort);
+        }
+
+        await onCheckpoint?.({
+          videoId,
+          phase: "replies",
+          pageCount,
+          comments,
+          pendingReplyIds: Array.from(pendingReplyIds),
+          updatedAt: new Date().toISOString(),
+        });
 
         // Update progress
         const processed = Math.min(i + BATCH_SIZE, commentsWithReplies.length);
@@ -322,6 +643,10 @@ export const useYouTubeData = () => {
         console.log(`⚠ Đã bỏ qua ${replyDuplicateCount} reply trùng lặp`);
       }
 
+      if (outOfScopeCount > 0) {
+        console.log(`⚠ Đã bỏ qua ${outOfScopeCount} comment ngoài phạm vi crawl`);
+      }
+
       console.log(
         `✓ Hoàn thành! Tổng cộng ${comments.length} comments (đã loại bỏ ${
           duplicateCount + replyDuplicateCount
@@ -329,20 +654,13 @@ export const useYouTubeData = () => {
       );
       return comments;
     } catch (error: unknown) {
-      const err = error as {
-        response?: {
-          status?: number;
-          _data?: {
-            error?: {
-              errors?: Array<{ reason?: string }>;
-            };
-          };
-        };
-      };
+      if (isAbortError(error)) throw error;
+      const quotaError = toQuotaError(error);
+      if (quotaError) throw quotaError;
+
+      const err = error as YouTubeApiFetchError;
       if (err.response?.status === 403) {
-        if (
-          err.response._data?.error?.errors?.[0]?.reason === "commentsDisabled"
-        ) {
+        if (getErrorReason(error) === "commentsDisabled") {
           throw new Error("Video này đã tắt bình luận");
         }
         throw new Error("API Key không hợp lệ hoặc đã hết quota");
@@ -351,45 +669,405 @@ export const useYouTubeData = () => {
     }
   };
 
-  // Fetch tất cả dữ liệu
-  const fetchVideoData = async (
-    url: string,
-    onProgress?: (current: number, total: number) => void
-  ): Promise<{
-    videoData: VideoData;
-    comments: YouTubeComment[];
-  }> => {
-    const videoId = extractVideoId(url);
-    if (!videoId) {
+  // Lấy video ID trong playlist (tối đa MAX_VIDEOS_PER_SOURCE)
+  const getPlaylistVideoIds = async (
+    playlistId: string,
+    signal?: AbortSignal
+  ): Promise<string[]> => {
+    const videoIds: string[] = [];
+    let pageToken: string | undefined = undefined;
+
+    do {
+      const response: YouTubeApiPlaylistItemsResponse =
+        await callApi<YouTubeApiPlaylistItemsResponse>(
+          "playlist-items",
+          {
+            playlistId,
+            part: "contentDetails",
+            maxResults: 50,
+            pageToken,
+          },
+          signal
+        );
+
+      response.items?.forEach((item) =>
+        videoIds.push(item.contentDetails.videoId)
+      );
+      pageToken = response.nextPageToken;
+    } while (pageToken && videoIds.length < MAX_VIDEOS_PER_SOURCE);
+
+    return videoIds.slice(0, MAX_VIDEOS_PER_SOURCE);
+  };
+
+  // Channel → playlist "uploads" → video mới nhất
+  const getChannelVideoIds = async (
+    target: CrawlTarget,
+    signal?: AbortSignal
+  ): Promise<string[]> => {
+    const params: Record<string, string> = {
+      part: "contentDetails",
+    };
+    if (target.id) params.id = target.id;
+    else if (target.handle) params.forHandle = target.handle;
+    else if (target.username) params.forUsername = target.username;
+
+    const response = await callApi<YouTubeApiChannelResponse>(
+      "channels",
+      params,
+      signal
+    );
+
+    const uploads =
+      response.items?.[0]?.contentDetails.relatedPlaylists.uploads;
+    if (!uploads) {
+      throw new Error(
+        isCustomChannelUrl(target.url)
+          ? `Không tìm thấy channel ${target.handle} cho custom URL ` +
+              "- hãy dùng link /channel/UC... hoặc @handle của channel"
+          : `Không tìm thấy channel: ${target.url}`
+      );
+    }
+
+    return getPlaylistVideoIds(uploads, signal);
+  };
+
+  // Resolve input (nhiều URL / playlist / channel) thành danh sách video ID
+  const resolveVideoIds = async (
+    input: string,
+    signal?: AbortSignal
+  ): Promise<string[]> => {
+    const { targets, invalid } = parseYouTubeTargets(input);
+    if (targets.length === 0) {
       throw new Error("URL YouTube không hợp lệ");
     }
+    if (invalid.length > 0) {
+      console.warn("Bỏ qua input không hợp lệ:", invalid);
+    }
 
-    const videoDetails = await getVideoDetails(videoId);
+    const videoIds: string[] = [];
+    for (const target of targets) {
+      try {
+        if (target.type === "video" && target.id) {
+          videoIds.push(target.id);
+        } else if (target.type === "playlist" && target.id) {
+          videoIds.push(...(await getPlaylistVideoIds(target.id, signal)));
+        } else {
+          videoIds.push(...(await getChannelVideoIds(target, signal)));
+        }
+      } catch (error: unknown) {
+        if (isAbortError(error)) throw error;
+        const quotaError = toQuotaError(error);
+        if (quotaError) throw quotaError;
 
-    // Truyền callback progress với total từ video details
-    const comments = await getComments(videoId, 100, (current) => {
-      if (onProgress) {
-        onProgress(current, videoDetails.commentCount);
+        const err = error as YouTubeApiFetchError;
+        if (err.response?.status === 403) {
+          throw new Error("API Key không hợp lệ hoặc đã hết quota");
+        }
+        throw new Error(
+          `Không thể đọc ${target.url}: ` + (error as Error).message
+        );
       }
-    });
+    }
 
-    const videoData: VideoData = {
-      videoId,
-      title: videoDetails.title || "Untitled",
-      url,
-      totalComments: videoDetails.commentCount,
-      estimatedRange: estimateCommentRange(videoDetails.commentCount),
-    };
+    return Array.from(new Set(videoIds));
+  };
 
+  // Thông tin video dùng cho bảng / export
+  const getVideoData = async (
+    videoId: string,
+    signal?: AbortSignal
+  ): Promise<VideoData> => {
+    const { title, commentCount, ...details } = await getVideoDetails(
+      videoId,
+      signal
+    );
     return {
-      videoData,
-      comments,
+      videoId,
+      title: title || "Untitled",
+      url: buildVideoUrl(videoId),
+      totalComments: commentCount,
+      estimatedRange: estimateCommentRange(commentCount),
+      ...details,
+      capturedAt: new Date().toISOString(),
     };
   };
 
+  // Ước tính quota trước khi crawl (bản thân bước này tốn vài units)
+  // Chạy trong phiên replay riêng để không làm lệch chuỗi fixture mà lần
+  // crawl sau đó nhận được
+  const estimateQuota = async (input: string): Promise<QuotaEstimate> => {
+    const previousSession = replaySession;
+    replaySession = createReplaySession();
+
+    try {
+      const videoIds = await resolveVideoIds(input);
+      let commentCount = 0;
+      let units = 0;
+
+      for (const videoId of videoIds) {
+        const { commentCount: count } = await getVideoDetails(videoId);
+        commentCount += count;
+        // + 1 call videos khi crawl thật
+        units += estimateCrawlQuota(count) + 1;
+      }
+
+      return { videoCount: videoIds.length, commentCount, units };
+    } finally {
+      replaySession = previousSession;
+    }
+  };
+
+  // Crawl một video - dùng checkpoint nếu resume, snapshot nếu incremental
+  // Crawl có scope chỉ là một phần comment → không ghi đè snapshot
+  const fetchSingleVideo = async (
+    videoData: VideoData,
+    resume: boolean,
+    incremental: boolean,
+    scope: CrawlScope | undefined,
+    onProgress: (current: number) => void,
+    signal?: AbortSignal
+  ): Promise<YouTubeComment[]> => {
+    const { videoId } = videoData;
+    const params = { incremental, scope };
+    const checkpoint = resume ? await loadCheckpoint(videoId, params) : null;
+
+    // Video đã xong trong lần chạy trước → không cần crawl lại
+    if (checkpoint?.phase === "done") {
+      return checkpoint.comments;
+    }
+
+    // Chưa có snapshot → crawl đầy đủ như bình thường
+    const snapshot = incremental ? await loadSnapshot(videoId) : null;
+    if (snapshot) {
+      videoData.previousCrawledAt = snapshot.crawledAt;
+    }
+
+    const comments = await getComments(videoId, 100, onProgress, {
+      resumeFrom: checkpoint || undefined,
+      onCheckpoint: (next) => saveCheckpoint(next, params),
+      previous: snapshot?.comments,
+      signal,
+      scope,
+    });
+
+    if (!hasCrawlScope(scope)) {
+      await saveSnapshot(videoId, comments);
+    }
+
+    // Đánh dấu xong - giữ lại đến khi cả job hoàn tất
+    await saveCheckpoint(
+      {
+        videoId,
+        phase: "done",
+        pageCount: 0,
+        comments,
+        pendingReplyIds: [],
+        updatedAt: new Date().toISOString(),
+      },
+      params
+    );
+
+    return comments;
+  };
+
+  // Fetch tất cả dữ liệu cho một hoặc nhiều video (URL, playlist, channel)
+  // resume = true: tiếp tục từ checkpoint đã lưu thay vì crawl lại từ page 1
+  // incremental = true: chỉ lấy comment mới kể từ snapshot lần crawl trước
+  // scope: khung thời gian / minLikes / searchTerms (bỏ qua incremental)
+  // budget: giới hạn units của job - chạm budget / hết quota thì tạm dừng
+  // (status "paused"), signal abort → "cancelled"; cả hai đều trả về kết quả
+  // dở dang và giữ checkpoint để resume
+  const fetchVideoData = async (
+    input: string,
+    onProgress?: (progress: VideoCrawlProgress[]) => void,
+    options: {
+      resume?: boolean;
+      incremental?: boolean;
+      scope?: CrawlScope;
+      budget?: number | null;
+      onQuota?: (usage: QuotaUsage) => void;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<{
+    videos: VideoData[];
+    comments: YouTubeComment[];
+    errors: VideoCrawlProgress[];
+    status: CrawlJobStatus;
+    stoppedReason?: string;
+    quota: QuotaUsage;
+  }> => {
+    const { signal } = options;
+    const quota = createQuotaTracker(options.budget ?? null, options.onQuota);
+    activeQuota = quota;
+    replaySession = createReplaySession();
+
+    try {
+      const savedJob = options.resume ? await loadJob(input) : null;
+      // Crawl mới thay job cũ của cùng input → bỏ checkpoint của job cũ
+      // (key theo tham số cũ, không còn resume được)
+      if (!options.resume) {
+        const staleJob = await loadJob(input);
+        if (staleJob) await clearJob(staleJob);
+      }
+      const videoIds = savedJob
+        ? savedJob.videoIds
+        : await resolveVideoIds(input, signal);
+
+      if (videoIds.length === 0) {
+        throw new Error("Không tìm thấy video nào để crawl");
+      }
+
+      // Resume giữ nguyên chế độ và scope của job ban đầu
+      const scope = savedJob ? savedJob.scope : options.scope;
+      const scoped = hasCrawlScope(scope);
+      const incremental =
+        !scoped &&
+        (savedJob ? !!savedJob.incremental : !!options.incremental);
+      const job = {
+        input,
+        videoIds,
+        incremental,
+        // Bản sao thường - reactive proxy từ form không lưu vào IDB được
+        scope: scoped ? { ...scope } : undefined,
+        updatedAt: new Date().toISOString(),
+      };
+      await saveJob(job);
+
+      const progress: VideoCrawlProgress[] = videoIds.map((videoId) => ({
+        videoId,
+        title: videoId,
+        status: "pending",
+        current: 0,
+        total: 0,
+      }));
+      const reportProgress = () =>
+        onProgress?.(progress.map((p) => ({ ...p })));
+      reportProgress();
+
+      const videos: VideoData[] = [];
+      const comments: YouTubeComment[] = [];
+      const videoDataMap = new Map<string, VideoData>();
+      // Ép kiểu để TS không thu hẹp - stop() đổi status bên trong closure
+      let status = "complete" as CrawlJobStatus;
+      let stoppedReason: string | undefined;
+
+      const stop = (
+        entry: VideoCrawlProgress,
+        state: { status: CrawlJobStatus; reason: string }
+      ) => {
+        console.warn(`⏸ Dừng job tại video ${entry.videoId}: ${state.reason}`);
+        entry.status = "paused";
+        status = state.status;
+        stoppedReason = state.reason;
+      };
+
+      // Bước 1: thông tin video → ước tính quota trước khi crawl comments
+      for (const entry of progress) {
+        try {
+          const videoData = await getVideoData(entry.videoId, signal);
+          videoDataMap.set(entry.videoId, videoData);
+          entry.title = videoData.title;
+          entry.total = videoData.totalComments;
+        } catch (error) {
+          const stopState = toStopState(error);
+          if (stopState) {
+            stop(entry, stopState);
+            break;
+          }
+          console.error(
+            `Lỗi khi lấy thông tin video ${entry.videoId}:`,
+            error
+          );
+          entry.status = "error";
+          entry.error = (error as Error).message;
+        }
+      }
+
+      // Ước tính là cận trên: video đã xong khi resume vẫn được tính
+      quota.setEstimate(
+        quota.usage.spent +
+          Array.from(videoDataMap.values()).reduce(
+            (sum, v) => sum + estimateCrawlQuota(v.totalComments),
+            0
+          )
+      );
+      reportProgress();
+
+      // Bước 2: crawl tuần tự từng video để progress và checkpoint rõ ràng
+      for (const entry of progress) {
+        const videoData = videoDataMap.get(entry.videoId);
+        if (!videoData || status !== "complete") continue;
+
+        entry.status = "running";
+        reportProgress();
+
+        try {
+          const result = await fetchSingleVideo(
+            videoData,
+            !!options.resume,
+            incremental,
+            job.scope,
+            (current) => {
+              entry.current = current;
+              reportProgress();
+            },
+            signal
+          );
+
+          entry.current = result.length;
+          entry.status = "done";
+          videos.push(videoData);
+          comments.push(...result);
+        } catch (error) {
+          const stopState = toStopState(error);
+          if (stopState) {
+            // Giữ kết quả dở dang từ checkpoint gần nhất
+            const checkpoint = await loadCheckpoint(entry.videoId, job);
+            if (checkpoint && checkpoint.comments.length > 0) {
+              videos.push(videoData);
+              comments.push(...checkpoint.comments);
+            }
+            stop(entry, stopState);
+          } else {
+            console.error(`Lỗi khi crawl video ${entry.videoId}:`, error);
+            entry.status = "error";
+            entry.error = (error as Error).message;
+          }
+        }
+        reportProgress();
+      }
+
+      const errors = progress.filter((p) => p.status === "error");
+
+      // Không video nào thành công → báo lỗi như trước
+      if (status === "complete" && videos.length === 0 && errors[0]) {
+        throw new Error(errors[0].error);
+      }
+
+      // Cả job xong → xoá checkpoint; video lỗi / tạm dừng → giữ để resume
+      if (status === "complete" && errors.length === 0) {
+        await clearJob(job);
+      }
+
+      return {
+        videos,
+        // Chấm điểm spam trên toàn job - cần đủ comment của mọi video
+        comments: annotateSpam(comments),
+        errors,
+        status,
+        stoppedReason,
+        quota: { ...quota.usage },
+      };
+    } finally {
+      activeQuota = null;
+      replaySession = null;
+    }
+  };
+
   return {
-    extractVideoId,
     getVideoDetails,
+    resolveVideoIds,
+    estimateQuota,
     getComments,
     fetchVideoData,
   };
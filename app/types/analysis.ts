@@ -0,0 +1,45 @@
+// types/analysis.ts
+import type { LlmBatchFailure } from "./llm";
+import type { TaxonomySnapshot } from "./taxonomy";
+
+export type Sentiment = "positive" | "neutral" | "negative";
+
+export interface AnalysisComment {
+  index: number;
+  date: string;
+  author: string;
+  viContent: string;
+  zhContent: string;
+  categoryName: string;
+  sentiment: Sentiment;
+  topKeywords: string[];
+}
+
+export interface ClassifiedComment {
+  index: number;
+  date: string;
+  author: string;
+  type: string;
+  viContent: string;
+  zhContent: string;
+  categoryName: string;
+}
+
+export interface ClassificationResult {
+  comments: ClassifiedComment[];
+  taxonomy: TaxonomySnapshot;
+  // Comment vẫn lỗi sau khi gửi lại - đang gán 未分类, có thể thử lại riêng
+  failures: LlmBatchFailure[];
+}
+
+export interface AnalysisResult {
+  comments: AnalysisComment[];
+  wordFrequency: Array<{ word: string; count: number }>;
+  sentimentSummary: Record<Sentiment, number>;
+  topicDistribution: Record<string, number>;
+  taxonomy: TaxonomySnapshot;
+  model: string;
+  // Comment vẫn lỗi sau khi gửi lại - đang mang giá trị mặc định
+  // (trung lập / 未分类), có thể thử lại riêng
+  failures: LlmBatchFailure[];
+}
@@ -0,0 +1,37 @@
+// types/classifier.ts
+import type { Taxonomy } from "./taxonomy";
+
+// Mô hình tự train từ nhãn người dùng gán trong bảng comment
+// spam: spam / ham, relevance: không liên quan / liên quan đến video
+export type ClassifierTask = "spam" | "relevance";
+
+// Nhãn theo từng task: true = lớp bị lọc (spam / không liên quan)
+export interface CommentLabel {
+  text: string; // Plain text lúc gán nhãn - train lại không cần crawl lại
+  labels: Partial<Record<ClassifierTask, boolean>>;
+  labeledAt: string;
+}
+
+// Naive Bayes đa thức trên n-gram ký tự - lưu được dạng JSON (IndexedDB)
+// Các cặp [lớp giữ, lớp lọc]
+export interface NaiveBayesModel {
+  task: ClassifierTask;
+  ngramRange: [number, number];
+  docCounts: [number, number];
+  featureTotals: [number, number];
+  features: Record<string, [number, number]>;
+  vocabularySize?: number; // Số n-gram (model lưu trước đây không có)
+  trainedAt: string;
+}
+
+// Project: nhãn + mô hình + bộ chủ đề dùng chung cho nhiều lần crawl cùng
+// chủ đề
+export interface ClassifierProject {
+  name: string;
+  labels: Record<string, CommentLabel>; // Theo ID comment
+  models: Partial<Record<ClassifierTask, NaiveBayesModel>>;
+  // Project lưu trước khi có bộ chủ đề không có 2 trường này
+  taxonomies?: Taxonomy[];
+  activeTaxonomyId?: string;
+  updatedAt: string;
+}
@@ -1,4 +1,7 @@
 // types/comment.ts
+import type { ClassifierTask } from "./classifier";
+
+export type LanguageCode = "vi" | "zh" | "en" | "th" | "ja" | "ko" | "unknown";
 
 export interface YouTubeComment {
   id: string;
@@ -7,13 +10,166 @@ export interface YouTubeComment {
   content: string;
   likeCount: number;
   replyCount: number;
+  language: LanguageCode; // Ngôn ngữ nhận diện local (utils/language.ts)
+  videoId: string; // Video nguồn (crawl nhiều video trong một job)
+  isNew?: boolean; // Incremental crawl: mới xuất hiện từ snapshot trước
+  // Metadata bổ sung từ API (optional: snapshot / checkpoint cũ không có)
+  textOriginal?: string; // Text gốc, content là textDisplay (HTML)
+  authorChannelId?: string;
+  authorProfileImageUrl?: string;
+  updatedAt?: Date;
+  isEdited?: boolean; // updatedAt > date
+  parentId?: string; // Chỉ có ở reply
+  canReply?: boolean; // Chỉ có ở comment cha (thread)
+  // Tương tác của chủ kênh: YouTube Data API không trả về trạng thái
+  // ghim / thả tim nên chỉ suy ra được comment / reply do chính creator viết
+  isCreator?: boolean;
+  hasCreatorReply?: boolean; // Thread có reply của creator
+  // Gắn bởi auditComments (useCommentFilter.ts)
+  override?: FilterOverride; // Có ghi đè thủ công
+  filteredReplyCount?: number; // Số replies còn lại sau lọc (replyCount: gốc)
+  isContext?: boolean; // Cha bị loại, chỉ giữ làm ngữ cảnh cho replies
+  isPromoted?: boolean; // Reply được đưa lên cấp trên do cha bị loại
+  // Phát hiện spam trên toàn bộ comment của job (utils/spamDetection.ts)
+  spamScore?: number; // 0-1
+  spamSignals?: SpamSignal[];
+  // Xác suất thuộc lớp bị lọc theo mô hình tự train (utils/classifier.ts)
+  modelScores?: Partial<Record<ClassifierTask, number>>;
   replies?: YouTubeComment[];
 }
 
+// burst: đăng dồn dập trong vài phút, crossAuthor: nhiều tài khoản cùng nội
+// dung, contactReuse: cùng SĐT / link / Zalo, authorVolume: một tài khoản
+// đăng quá nhiều, namePattern: tên mặc định dạng @user-xxxx
+export type SpamSignal =
+  | "burst"
+  | "crossAuthor"
+  | "contactReuse"
+  | "authorVolume"
+  | "namePattern";
+
+// Lọc từ ngữ thô tục (utils/toxicity.ts): "remove" loại comment, "mask" giữ
+// lại nhưng che từ vi phạm khi hiển thị / export
+export type ToxicityMode = "off" | "remove" | "mask";
+export type ToxicSeverity = "mild" | "severe";
+export type ToxicLexicon = Record<
+  "vi" | "zh",
+  Record<ToxicSeverity, string[]>
+>;
+
+// Xử lý thread khi comment cha bị loại nhưng còn replies pass filter
+// keepThread: cha hoặc một reply pass → giữ nguyên cả thread
+// dropThread: cha bị loại → loại cả thread
+// parentContext: giữ cha làm ngữ cảnh, chỉ hiện replies pass filter
+// promoteReplies: bỏ cha, replies pass filter thành comment cấp trên
+export type ThreadPolicy =
+  | "keepThread"
+  | "dropThread"
+  | "parentContext"
+  | "promoteReplies";
+
 export interface FilterOptions {
   removeEmojiOnly: boolean;
   removeAdvertisements: boolean;
   removeGenericComments: boolean;
+  languages: LanguageCode[]; // Rỗng = giữ mọi ngôn ngữ
+  onlyNew: boolean; // Chỉ giữ comment mới kể từ lần crawl trước
+  adKeywords: string[]; // Dùng cho removeAdvertisements
+  genericMinWords: number; // Ít hơn số từ này → comment đơn điệu
+  removeSpam: boolean;
+  spamThreshold: number; // spamScore >= ngưỡng → loại
+  toxicityMode: ToxicityMode;
+  toxicitySeverity: ToxicSeverity; // Mức tối thiểu bị xử lý
+  toxicLexicon: ToxicLexicon;
+  threadPolicy: ThreadPolicy;
+  removeByModel: boolean; // Dùng mô hình tự train của project đang chọn
+  modelThreshold: number; // Xác suất spam / không liên quan >= ngưỡng → loại
+  rules: FilterRule[];
+}
+
+// ---- Rule tự định nghĩa (utils/filterRules.ts) ----
+
+export type RuleField =
+  | "text"
+  | "author"
+  | "length"
+  | "likes"
+  | "replies"
+  | "date"
+  | "language";
+
+export type RuleOperator =
+  | "contains"
+  | "notContains"
+  | "equals"
+  | "regex"
+  | "gte"
+  | "lte"
+  | "after"
+  | "before";
+
+export interface FilterCondition {
+  id: string;
+  field: RuleField;
+  operator: RuleOperator;
+  value: string; // Số / ngày / mã ngôn ngữ đều lưu dạng chuỗi như ô nhập
+}
+
+export interface FilterConditionGroup {
+  id: string;
+  combinator: "and" | "or"; // Giữa các điều kiện trong nhóm
+  conditions: FilterCondition[];
+}
+
+// include: chỉ giữ comment khớp (ít nhất một rule include), exclude: loại bỏ
+export interface FilterRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  action: "include" | "exclude";
+  combinator: "and" | "or"; // Giữa các nhóm
+  groups: FilterConditionGroup[];
+}
+
+// ---- Audit bộ lọc: lý do comment bị loại ----
+
+export type FilterReasonCode =
+  | "onlyNew"
+  | "language"
+  | "emojiOnly"
+  | "advertisement"
+  | "generic"
+  | "spam"
+  | "toxic"
+  | "model"
+  | "rule"
+  | "thread" // Reply bị loại theo comment cha (ThreadPolicy "dropThread")
+  | "manual"; // Người dùng ép loại (FilterOverride "remove")
+
+export interface FilterReason {
+  code: FilterReasonCode;
+  detail?: string; // Từ khoá / link khớp, tên rule, ngôn ngữ...
+}
+
+// Ghi đè thủ công theo ID comment, ưu tiên hơn mọi bộ lọc
+export type FilterOverride = "keep" | "remove";
+
+export interface RemovedComment {
+  comment: YouTubeComment;
+  reasons: FilterReason[];
+  parentAuthor?: string; // Chỉ có ở reply
+}
+
+export interface FilterAudit {
+  kept: YouTubeComment[];
+  removed: RemovedComment[];
+}
+
+// Preset lưu / import / export dạng JSON - không gồm onlyNew (phụ thuộc lần crawl)
+export interface FilterPreset {
+  name: string;
+  savedAt: string;
+  filters: Omit<FilterOptions, "onlyNew">;
 }
 
 export interface VideoData {
@@ -22,6 +178,18 @@ export interface VideoData {
   url: string;
   totalComments: number;
   estimatedRange: string;
+  previousCrawledAt?: string; // Incremental: thời điểm snapshot được so sánh
+  // Metadata video tại thời điểm crawl (ghi kèm export để biết bối cảnh)
+  channelId: string;
+  channelTitle: string;
+  publishedAt: string;
+  description: string;
+  tags: string[];
+  thumbnailUrl?: string;
+  duration: string; // ISO 8601, vd. "PT1H2M3S"
+  viewCount: number;
+  likeCount?: number; // Chủ kênh có thể ẩn lượt thích
+  capturedAt: string;
 }
 
 export interface TableSort {
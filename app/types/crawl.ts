@@ -0,0 +1,87 @@
+// types/crawl.ts
+import type { YouTubeComment } from "./comment";
+
+// Trạng thái crawl được lưu lại để tiếp tục sau khi reload / mất mạng / hết quota
+// "done": video đã crawl xong trong một job nhiều video, giữ lại đến khi cả job xong
+export interface CrawlCheckpoint {
+  videoId: string;
+  phase: "threads" | "replies" | "done";
+  pageToken?: string; // page token commentThreads kế tiếp (phase "threads")
+  pageCount: number;
+  comments: YouTubeComment[];
+  pendingReplyIds: string[]; // comment cha còn chờ fetch replies (phase "replies")
+  updatedAt: string;
+}
+
+// Kết quả crawl thành công gần nhất của video - nền cho incremental re-crawl
+export interface CrawlSnapshot {
+  videoId: string;
+  crawledAt: string;
+  comments: YouTubeComment[];
+}
+
+// Giới hạn phạm vi crawl - bỏ trống = không giới hạn
+// Khung thời gian / minLikes áp dụng cho cả comment cha lẫn reply
+export interface CrawlScope {
+  publishedAfter?: string; // Chuỗi ngày giờ parse được bằng new Date()
+  publishedBefore?: string;
+  minLikes?: number;
+  searchTerms?: string; // Truyền thẳng vào tham số searchTerms của API
+}
+
+export interface CrawlOptions {
+  resumeFrom?: CrawlCheckpoint;
+  onCheckpoint?: (checkpoint: CrawlCheckpoint) => void | Promise<void>;
+  // Incremental: dừng paging khi gặp comment đã biết, tra lại
+  // totalReplyCount của mọi thread cũ và chỉ refresh replies khi thay đổi
+  previous?: YouTubeComment[];
+  signal?: AbortSignal;
+  scope?: CrawlScope;
+}
+
+// Một nguồn crawl: video, playlist hoặc channel (ID, @handle, /c/ hoặc /user/)
+export interface CrawlTarget {
+  type: "video" | "playlist" | "channel";
+  id?: string;
+  handle?: string;
+  username?: string;
+  url: string;
+}
+
+// Job crawl nhiều video - lưu danh sách video đã resolve để resume không tốn quota
+export interface CrawlJob {
+  input: string;
+  videoIds: string[];
+  incremental?: boolean;
+  scope?: CrawlScope;
+  updatedAt: string;
+}
+
+// Tham số crawl quyết định tập kết quả - checkpoint chỉ dùng lại khi khớp
+export type CrawlParams = Pick<CrawlJob, "incremental" | "scope">;
+
+// Tiến trình đã lưu của một job: hiển thị nút "Tiếp tục crawl"
+export interface CrawlResumeState {
+  job: CrawlJob;
+  checkpoints: CrawlCheckpoint[];
+}
+
+// "paused": chạm budget quota / YouTube hết quota, "cancelled": người dùng huỷ
+// - cả hai đều giữ checkpoint để resume
+export type CrawlJobStatus = "complete" | "paused" | "cancelled";
+
+// Ước tính quota trước khi crawl (utils/quota.ts)
+export interface QuotaEstimate {
+  videoCount: number;
+  commentCount: number;
+  units: number;
+}
+
+export interface VideoCrawlProgress {
+  videoId: string;
+  title: string;
+  status: "pending" | "running" | "done" | "error" | "paused";
+  current: number;
+  total: number;
+  error?: string;
+}
@@ -0,0 +1,16 @@
+// types/llm.ts
+
+// Model LLM server đã cấu hình (GET /api/llm/models), id dạng
+// "<provider>:<model>" - vd. "gemini:gemini-2.0-flash", "mock:mock"
+export interface LlmModelOption {
+  id: string;
+  provider: "gemini" | "openai" | "mock";
+  label: string;
+}
+
+// Comment vẫn lỗi sau khi đã chia nhỏ batch gửi lại (utils/batchRepair.ts)
+export interface LlmBatchFailure {
+  index: number;
+  content: string;
+  reason: string;
+}
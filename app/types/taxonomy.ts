@@ -0,0 +1,35 @@
+// types/taxonomy.ts
+
+// Bộ chủ đề tự định nghĩa cho phân tích chủ đề (thay cho 6 chủ đề Tây Du Ký
+// cố định trước đây) - prompt + schema phân loại dựng từ đây ở server
+
+export interface TaxonomyCategory {
+  id: string;
+  label: string; // Tên chủ đề - cũng là giá trị ghi vào kết quả / export
+  description: string; // Đặc điểm nhận biết
+  keywords: string[];
+  examples: string[]; // Comment mẫu thuộc chủ đề
+}
+
+// Mỗi lần lưu tạo một phiên bản mới, không sửa đè phiên bản cũ
+export interface TaxonomyVersion {
+  version: number;
+  savedAt: string;
+  categories: TaxonomyCategory[];
+}
+
+export interface Taxonomy {
+  id: string;
+  name: string;
+  versions: TaxonomyVersion[]; // Tăng dần, phần tử cuối là bản hiện hành
+}
+
+// Đúng phiên bản dùng cho một lần phân tích - gửi lên server và ghi vào
+// export để tái lập kết quả
+export interface TaxonomySnapshot {
+  id: string;
+  name: string;
+  version: number;
+  savedAt: string;
+  categories: TaxonomyCategory[];
+}
@@ -0,0 +1,63 @@
+// types/translation.ts
+import type { LanguageCode } from "./comment";
+import type { LlmBatchFailure } from "./llm";
+
+export type TranslationLanguage = Exclude<LanguageCode, "unknown">;
+
+// "auto" = để AI tự nhận diện ngôn ngữ nguồn của từng comment
+export type TranslationSource = TranslationLanguage | "auto";
+
+// Một lượt dịch: 1 ngôn ngữ nguồn → nhiều ngôn ngữ đích cùng lúc
+export interface TranslationOptions {
+  source: TranslationSource;
+  targets: TranslationLanguage[];
+}
+
+export interface CommentToTranslate {
+  index: number;
+  author: string;
+  content: string;
+  type: string;
+  date: string;
+}
+
+export interface TranslatedComment extends CommentToTranslate {
+  // Ngôn ngữ nguồn thực tế - nguồn "auto" thì nhận diện local từng comment
+  sourceLanguage: LanguageCode;
+  translations: Partial<Record<TranslationLanguage, string>>;
+}
+
+// Bộ nhớ dịch (IndexedDB store "translations"): 1 mục = 1 câu nguồn đã
+// chuẩn hoá + cặp ngôn ngữ + model
+export interface TranslationMemoryEntry {
+  source: TranslationSource;
+  target: TranslationLanguage;
+  model: string;
+  text: string; // Câu nguồn đã chuẩn hoá (utils/translationMemory.ts)
+  translation: string;
+  updatedAt: string;
+}
+
+// File export / import để chia sẻ bộ nhớ dịch trong nhóm
+export interface TranslationMemoryFile {
+  format: string;
+  version: number;
+  exportedAt: string;
+  entries: TranslationMemoryEntry[];
+}
+
+// Tỷ lệ dùng lại của một lượt dịch (tính theo comment)
+export interface TranslationCacheStats {
+  total: number; // Số comment trong file
+  hits: number; // Comment đủ bản dịch từ bộ nhớ, không gọi API
+  duplicates: number; // Comment trùng câu khác trong file, chỉ dịch 1 lần
+  requested: number; // Câu gửi lên API
+}
+
+export interface TranslationResult {
+  comments: TranslatedComment[];
+  cache: TranslationCacheStats;
+  // Comment vẫn lỗi sau khi gửi lại - bản dịch đang là nội dung gốc kèm
+  // "[Lỗi dịch]", có thể dịch lại riêng
+  failures: LlmBatchFailure[];
+}
@@ -0,0 +1,37 @@
+// utils/abort.ts
+
+// Lỗi chuẩn khi job bị huỷ (giống fetch khi signal abort)
+export const createAbortError = (): DOMException => {
+  return new DOMException("Đã huỷ", "AbortError");
+};
+
+// $fetch (ofetch) bọc lỗi abort trong FetchError.cause
+export const isAbortError = (error: unknown): boolean => {
+  const err = error as { name?: string; cause?: { name?: string } } | null;
+  return err?.name === "AbortError" || err?.cause?.name === "AbortError";
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+// setTimeout có thể huỷ - dùng cho delay giữa các batch / backoff
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+};
@@ -0,0 +1,96 @@
+// utils/batchRepair.ts
+import { isAbortError } from "./abort";
+
+// Kiểm tra phản hồi batch LLM theo đúng index đã gửi: model hay bỏ sót vài
+// phần tử, trả sai kiểu hoặc cả request lỗi (vượt giới hạn output...). Chỉ
+// phần tử thiếu / sai được gửi lại, mỗi vòng chia đôi kích thước batch
+
+export const REPAIR_ROUNDS = 3;
+
+export interface RepairResult<R> {
+  results: Map<number, R>; // Theo index
+  failures: Map<number, string>; // Index → lý do lỗi ở lần thử cuối
+}
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+const errorReason = (error: unknown): string => {
+  const err = error as { statusMessage?: string; message?: string } | null;
+  return `Lỗi request: ${err?.statusMessage || err?.message || "không rõ"}`;
+};
+
+// parseItem: phần tử phản hồi (đã khớp index) → kết quả, null nếu sai schema
+// Lỗi huỷ (AbortError) ném ra ngay, lỗi khác chỉ đánh dấu phần tử để thử lại
+export const runWithRepair = async <I extends { index: number }, R>(
+  items: I[],
+  request: (batch: I[]) => Promise<unknown>,
+  parseItem: (raw: Record<string, unknown>, item: I) => R | null,
+  rounds = REPAIR_ROUNDS
+): Promise<RepairResult<R>> => {
+  const results = new Map<number, R>();
+  const reasons = new Map<number, string>();
+  let pending = items;
+  let size = items.length;
+
+  for (let round = 0; round <= rounds && pending.length > 0; round++) {
+    if (round > 0) {
+      console.warn(
+        `🔁 Gửi lại ${pending.length} phần tử lỗi (batch ${size}, vòng ${round}/${rounds})`
+      );
+    }
+
+    await Promise.all(
+      chunk(pending, size).map(async (batch) => {
+        let response: unknown;
+        try {
+          response = await request(batch);
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          batch.forEach((item) => reasons.set(item.index, errorReason(error)));
+          return;
+        }
+
+        const byIndex = new Map(batch.map((item) => [item.index, item]));
+        const seen = new Set<number>();
+        (Array.isArray(response) ? response : []).forEach((raw) => {
+          if (!raw || typeof raw !== "object") return;
+          const record = raw as Record<string, unknown>;
+          const index = record.index;
+          const item = typeof index === "number" && byIndex.get(index);
+          // Index lạ / trùng lặp → bỏ qua, không ghi đè phần tử đã nhận
+          if (!item || seen.has(item.index)) return;
+          seen.add(item.index);
+
+          const value = parseItem(record, item);
+          if (value === null) {
+            reasons.set(item.index, "Dữ liệu trả về không hợp lệ");
+          } else {
+            results.set(item.index, value);
+          }
+        });
+
+        batch.forEach((item) => {
+          if (!seen.has(item.index)) {
+            reasons.set(item.index, "Thiếu trong phản hồi");
+          }
+        });
+      })
+    );
+
+    pending = pending.filter((item) => !results.has(item.index));
+    size = Math.max(1, Math.ceil(size / 2));
+  }
+
+  return {
+    results,
+    failures: new Map(
+      pending.map((item) => [item.index, reasons.get(item.index) || ""])
+    ),
+  };
+};
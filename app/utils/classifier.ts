@@ -0,0 +1,241 @@
+// utils/classifier.ts
+import type {
+  ClassifierProject,
+  ClassifierTask,
+  CommentLabel,
+  NaiveBayesModel,
+} from "../types/classifier";
+import type { YouTubeComment } from "../types/comment";
+import { stripHtmlTags } from "./format";
+import { normalizeText } from "./normalize";
+
+// Phân loại comment bằng mô hình train ngay trên trình duyệt từ nhãn người
+// dùng gán (không gọi API): Naive Bayes trên n-gram ký tự của text đã chuẩn
+// hoá - chịu được viết sai chính tả, không dấu, teencode
+
+export const CLASSIFIER_TASK_LABELS: Record<ClassifierTask, string> = {
+  spam: "Spam / Ham",
+  relevance: "Liên quan / Không liên quan",
+};
+
+// positive: lớp bị lọc (nhãn true), negative: lớp giữ lại
+export const CLASSIFIER_CLASS_LABELS: Record<
+  ClassifierTask,
+  { positive: string; negative: string }
+> = {
+  spam: { positive: "Spam", negative: "Ham" },
+  relevance: { positive: "Không liên quan", negative: "Liên quan" },
+};
+
+export const CLASSIFIER_TASKS = Object.keys(
+  CLASSIFIER_TASK_LABELS
+) as ClassifierTask[];
+
+export const DEFAULT_MODEL_THRESHOLD = 0.8;
+export const MIN_EXAMPLES_PER_CLASS = 3;
+
+const NGRAM_RANGE: [number, number] = [3, 4];
+// Bộ từ vựng quá lớn → bỏ n-gram chỉ gặp một lần để model gọn khi lưu
+const MAX_FEATURES = 50000;
+
+export const createEmptyProject = (name: string): ClassifierProject => ({
+  name,
+  labels: {},
+  models: {},
+  updatedAt: new Date().toISOString(),
+});
+
+// Tập n-gram ký tự (mỗi n-gram tính một lần / comment), có đệm khoảng trắng
+// để n-gram đầu / cuối từ mang thông tin ranh giới từ
+const extractFeatures = (
+  text: string,
+  [min, max]: [number, number]
+): Set<string> => {
+  const chars = Array.from(` ${normalizeText(stripHtmlTags(text))} `);
+  const features = new Set<string>();
+  for (let n = min; n <= max; n++) {
+    for (let i = 0; i + n <= chars.length; i++) {
+      features.add(chars.slice(i, i + n).join(""));
+    }
+  }
+  return features;
+};
+
+export interface TrainingExample {
+  text: string;
+  positive: boolean;
+}
+
+// Ví dụ train của một task từ nhãn đã gán
+export const getTrainingExamples = (
+  labels: Record<string, CommentLabel>,
+  task: ClassifierTask
+): TrainingExample[] =>
+  Object.values(labels).flatMap((label) => {
+    const value = label.labels[task];
+    return value === undefined ? [] : [{ text: label.text, positive: value }];
+  });
+
+export const countLabels = (
+  labels: Record<string, CommentLabel>,
+  task: ClassifierTask
+): { positive: number; negative: number } => {
+  const examples = getTrainingExamples(labels, task);
+  const positive = examples.filter((example) => example.positive).length;
+  return { positive, negative: examples.length - positive };
+};
+
+export const trainNaiveBayes = (
+  task: ClassifierTask,
+  examples: TrainingExample[]
+): NaiveBayesModel => {
+  const positive = examples.filter((example) => example.positive).length;
+  const negative = examples.length - positive;
+  if (Math.min(positive, negative) < MIN_EXAMPLES_PER_CLASS) {
+    const classes = CLASSIFIER_CLASS_LABELS[task];
+    throw new Error(
+      `Cần ít nhất ${MIN_EXAMPLES_PER_CLASS} comment mỗi nhãn ` +
+        `(hiện có ${positive} ${classes.positive}, ` +
+        `${negative} ${classes.negative})`
+    );
+  }
+
+  let features = new Map<string, [number, number]>();
+  for (const example of examples) {
+    const index = example.positive ? 1 : 0;
+    for (const feature of extractFeatures(example.text, NGRAM_RANGE)) {
+      const counts = features.get(feature) || [0, 0];
+      counts[index]++;
+      features.set(feature, counts);
+    }
+  }
+
+  if (features.size > MAX_FEATURES) {
+    features = new Map(
+      [...features].filter(([, counts]) => counts[0] + counts[1] > 1)
+    );
+  }
+
+  const featureTotals: [number, number] = [0, 0];
+  features.forEach((counts) => {
+    featureTotals[0] += counts[0];
+    featureTotals[1] += counts[1];
+  });
+
+  return {
+    task,
+    ngramRange: NGRAM_RANGE,
+    docCounts: [negative, positive],
+    featureTotals,
+    features: Object.fromEntries(features),
+    vocabularySize: features.size,
+    trainedAt: new Date().toISOString(),
+  };
+};
+
+// Model lưu trước khi có vocabularySize → đếm một lần cho mỗi model
+const vocabularySizes = new WeakMap<NaiveBayesModel, number>();
+
+const getVocabularySize = (model: NaiveBayesModel): number => {
+  if (model.vocabularySize !== undefined) return model.vocabularySize;
+  let size = vocabularySizes.get(model);
+  if (size === undefined) {
+    size = Object.keys(model.features).length;
+    vocabularySizes.set(model, size);
+  }
+  return size;
+};
+
+// Xác suất comment thuộc lớp bị lọc (spam / không liên quan), 0-1
+// Laplace smoothing, n-gram chưa gặp khi train bị bỏ qua
+export const predictProbability = (
+  model: NaiveBayesModel,
+  text: string
+): number => {
+  const vocabulary = getVocabularySize(model);
+  const totalDocs = model.docCounts[0] + model.docCounts[1];
+  let logOdds =
+    Math.log((model.docCounts[1] + 1) / (totalDocs + 2)) -
+    Math.log((model.docCounts[0] + 1) / (totalDocs + 2));
+
+  for (const feature of extractFeatures(text, model.ngramRange)) {
+    const counts = model.features[feature];
+    if (!counts) continue;
+    logOdds +=
+      Math.log((counts[1] + 1) / (model.featureTotals[1] + vocabulary)) -
+      Math.log((counts[0] + 1) / (model.featureTotals[0] + vocabulary));
+  }
+
+  return 1 / (1 + Math.exp(-logOdds));
+};
+
+// Gắn modelScores dự đoán cho comment cha và replies (trả về mảng mới)
+// Tốn nhất (n-gram mọi comment) → chỉ chạy lại khi model đổi, nhãn gán sau
+// bằng applyLabelScores
+export const applyClassifiers = (
+  comments: YouTubeComment[],
+  models: ClassifierProject["models"]
+): YouTubeComment[] => {
+  const tasks = CLASSIFIER_TASKS.filter((task) => models[task]);
+  if (tasks.length === 0) return comments;
+
+  const score = (comment: YouTubeComment): YouTubeComment => ({
+    ...comment,
+    modelScores: Object.fromEntries(
+      tasks.map((task) => [
+        task,
+        predictProbability(models[task]!, comment.content),
+      ])
+    ),
+  });
+
+  return comments.map((comment) => ({
+    ...score(comment),
+    replies: comment.replies?.map(score),
+  }));
+};
+
+// Comment đã gán nhãn lấy theo nhãn (0 / 1) thay vì dự đoán - chỉ đổi
+// comment có nhãn, không tính lại xác suất
+export const applyLabelScores = (
+  comments: YouTubeComment[],
+  labels: ClassifierProject["labels"]
+): YouTubeComment[] => {
+  const withLabel = (comment: YouTubeComment): YouTubeComment => {
+    const label = labels[comment.id];
+    if (!label || !comment.modelScores) return comment;
+    const modelScores = { ...comment.modelScores };
+    (Object.keys(modelScores) as ClassifierTask[]).forEach((task) => {
+      const value = label.labels[task];
+      if (value !== undefined) modelScores[task] = Number(value);
+    });
+    return { ...comment, modelScores };
+  };
+
+  return comments.map((comment) => ({
+    ...withLabel(comment),
+    replies: comment.replies?.map(withLabel),
+  }));
+};
+
+// Comment chưa gán nhãn mà mô hình phân vân nhất (xác suất gần 0.5) - gợi ý
+// cho vòng gán nhãn tiếp theo
+export const findUncertainComments = (
+  comments: YouTubeComment[],
+  project: ClassifierProject,
+  task: ClassifierTask,
+  limit = 10
+): YouTubeComment[] =>
+  comments
+    .flatMap((comment) => [comment, ...(comment.replies || [])])
+    .filter(
+      (comment) =>
+        comment.modelScores?.[task] !== undefined &&
+        project.labels[comment.id]?.labels[task] === undefined
+    )
+    .sort(
+      (a, b) =>
+        Math.abs(a.modelScores![task]! - 0.5) -
+        Math.abs(b.modelScores![task]! - 0.5)
+    )
+    .slice(0, limit);
@@ -0,0 +1,36 @@
+// utils/crawlScope.ts
+import type { YouTubeComment } from "../types/comment";
+import type { CrawlScope } from "../types/crawl";
+
+export const hasCrawlScope = (scope?: CrawlScope | null): boolean => {
+  if (!scope) return false;
+  return (
+    !!scope.publishedAfter ||
+    !!scope.publishedBefore ||
+    !!scope.minLikes ||
+    !!scope.searchTerms?.trim()
+  );
+};
+
+// Khung thời gian dạng timestamp, cạnh bỏ trống = không giới hạn
+export const getScopeWindow = (scope: CrawlScope = {}) => ({
+  after: scope.publishedAfter
+    ? new Date(scope.publishedAfter).getTime()
+    : -Infinity,
+  before: scope.publishedBefore
+    ? new Date(scope.publishedBefore).getTime()
+    : Infinity,
+});
+
+export const matchesCrawlScope = (
+  comment: YouTubeComment,
+  scope: CrawlScope = {}
+): boolean => {
+  const { after, before } = getScopeWindow(scope);
+  const time = new Date(comment.date).getTime();
+  return (
+    time >= after &&
+    time <= before &&
+    comment.likeCount >= (scope.minLikes || 0)
+  );
+};
@@ -0,0 +1,272 @@
+// utils/dedupe.ts
+import type { YouTubeComment } from "../types/comment";
+import { foldDiacritics } from "./normalize";
+
+// "id": chỉ bỏ comment trùng ID (crawl lặp / resume)
+// "normalized": trùng nội dung sau khi chuẩn hoá (hoa thường, khoảng trắng,
+// dấu, emoji)
+// "near": gần giống - shingling + MinHash, so với ngưỡng similarity
+export type DedupeStrategy = "id" | "normalized" | "near";
+
+export interface DedupeOptions {
+  strategy: DedupeStrategy;
+  threshold: number; // Jaccard 0-1, chỉ dùng cho "near"
+}
+
+export const DEDUPE_STRATEGY_LABELS: Record<DedupeStrategy, string> = {
+  id: "Chỉ trùng ID",
+  normalized: "Trùng nội dung (đã chuẩn hoá)",
+  near: "Gần giống (near-duplicate)",
+};
+
+export interface DuplicateCluster {
+  kept: YouTubeComment; // Comment sớm nhất trong cụm được giữ lại
+  duplicates: Array<{ comment: YouTubeComment; similarity: number }>;
+}
+
+export interface DedupeResult {
+  comments: YouTubeComment[];
+  clusters: DuplicateCluster[];
+  removedCount: number;
+}
+
+// Bỏ HTML, emoji, dấu; gộp khoảng trắng
+export const normalizeForDedupe = (text: string): string => {
+  return foldDiacritics(text)
+    .replace(/<[^>]*>/g, " ")
+    .toLowerCase()
+    .replace(/\p{Extended_Pictographic}|\u200d|\ufe0f/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+};
+
+// ---- Near-duplicate: shingle ký tự (chạy được cả với tiếng Trung không có
+// khoảng trắng) → MinHash → LSH banding để chỉ so cặp ứng viên ----
+
+const SHINGLE_SIZE = 3;
+const NUM_HASHES = 64;
+// 16 band x 4 row: cặp similarity từ ~0.5 trở lên gần như chắc thành ứng viên
+const BANDS = 16;
+const ROWS = NUM_HASHES / BANDS;
+
+const toShingles = (text: string): Set<string> => {
+  const chars = Array.from(text);
+  const shingles = new Set<string>();
+  if (chars.length <= SHINGLE_SIZE) {
+    if (chars.length > 0) shingles.add(text);
+    return shingles;
+  }
+  for (let i = 0; i <= chars.length - SHINGLE_SIZE; i++) {
+    shingles.add(chars.slice(i, i + SHINGLE_SIZE).join(""));
+  }
+  return shingles;
+};
+
+// FNV-1a 32-bit
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Hệ số cố định cho NUM_HASHES hàm hash (a lẻ) - kết quả ổn định giữa các lần
+const HASH_PARAMS = Array.from({ length: NUM_HASHES }, (_, i) => ({
+  a: (hashString(`a${i}`) | 1) >>> 0,
+  b: hashString(`b${i}`),
+}));
+
+const minHash = (shingles: Set<string>): number[] => {
+  const signature = new Array<number>(NUM_HASHES).fill(0xffffffff);
+  shingles.forEach((shingle) => {
+    const x = hashString(shingle);
+    HASH_PARAMS.forEach(({ a, b }, i) => {
+      const h = (Math.imul(a, x) + b) >>> 0;
+      if (h < signature[i]!) signature[i] = h;
+    });
+  });
+  return signature;
+};
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 1;
+  let intersection = 0;
+  a.forEach((item) => {
+    if (b.has(item)) intersection++;
+  });
+  return intersection / (a.size + b.size - intersection);
+};
+
+// Union-find trên chỉ số comment
+const createUnionFind = (size: number) => {
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]!]!;
+      i = parent[i]!;
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent[rootB] = rootA;
+  };
+  return { find, union };
+};
+
+// Gom nhóm các comment trùng → mảng nhóm chỉ số (chỉ nhóm >= 2 phần tử)
+// Dùng lại cho phát hiện spam (utils/spamDetection.ts)
+export const groupDuplicates = (
+  items: YouTubeComment[],
+  options: DedupeOptions
+): { groups: number[][]; similarity: (a: number, b: number) => number } => {
+  const { find, union } = createUnionFind(items.length);
+
+  if (options.strategy === "id") {
+    const firstById = new Map<string, number>();
+    items.forEach((item, i) => {
+      const first = firstById.get(item.id);
+      if (first === undefined) firstById.set(item.id, i);
+      else union(first, i);
+    });
+  } else if (options.strategy === "normalized") {
+    const firstByText = new Map<string, number>();
+    items.forEach((item, i) => {
+      const text = normalizeForDedupe(item.content);
+      // Comment chỉ có emoji → chuỗi rỗng, không coi là trùng nhau
+      const key = text || `#${item.id}`;
+      const first = firstByText.get(key);
+      if (first === undefined) firstByText.set(key, i);
+      else union(first, i);
+    });
+  }
+
+  const texts =
+    options.strategy === "near"
+      ? items.map((item) => normalizeForDedupe(item.content))
+      : [];
+  const shingles = texts.map(toShingles);
+
+  if (options.strategy === "near") {
+    // Nội dung y hệt nhau (spam copy-paste) gộp ngay, chỉ một đại diện vào
+    // LSH - bucket không phình theo số bản sao
+    const firstByText = new Map<string, number>();
+    const representatives: number[] = [];
+    texts.forEach((text, i) => {
+      if (shingles[i]!.size === 0) return;
+      const first = firstByText.get(text);
+      if (first === undefined) {
+        firstByText.set(text, i);
+        representatives.push(i);
+      } else {
+        union(first, i);
+      }
+    });
+
+    const buckets = new Map<string, number[]>();
+    representatives.forEach((i) => {
+      const signature = minHash(shingles[i]!);
+      for (let band = 0; band < BANDS; band++) {
+        const rows = signature.slice(band * ROWS, (band + 1) * ROWS);
+        const key = `${band}:${rows.join(",")}`;
+        const bucket = buckets.get(key);
+        if (bucket) bucket.push(i);
+        else buckets.set(key, [i]);
+      }
+    });
+
+    // Chỉ so cặp ứng viên cùng bucket bằng Jaccard chính xác
+    const compared = new Set<string>();
+    buckets.forEach((bucket) => {
+      for (let x = 0; x < bucket.length; x++) {
+        for (let y = x + 1; y < bucket.length; y++) {
+          const a = bucket[x]!;
+          const b = bucket[y]!;
+          // Đã cùng nhóm → bỏ qua trước khi tạo key / tính Jaccard
+          if (find(a) === find(b)) continue;
+          const pairKey = `${a}:${b}`;
+          if (compared.has(pairKey)) continue;
+          compared.add(pairKey);
+          if (jaccard(shingles[a]!, shingles[b]!) >= options.threshold) {
+            union(a, b);
+          }
+        }
+      }
+    });
+  }
+
+  const groupsByRoot = new Map<number, number[]>();
+  items.forEach((_, i) => {
+    const root = find(i);
+    const group = groupsByRoot.get(root);
+    if (group) group.push(i);
+    else groupsByRoot.set(root, [i]);
+  });
+
+  return {
+    groups: Array.from(groupsByRoot.values()).filter((g) => g.length > 1),
+    similarity: (a, b) =>
+      options.strategy === "near" ? jaccard(shingles[a]!, shingles[b]!) : 1,
+  };
+};
+
+// Dedupe comment cha và replies (so chung một tập), giữ comment sớm nhất
+// Comment cha bị loại nhưng còn reply → vẫn giữ làm ngữ cảnh như filterComments
+export const dedupeComments = (
+  comments: YouTubeComment[],
+  options: DedupeOptions
+): DedupeResult => {
+  const items = comments.flatMap((c) => [c, ...(c.replies || [])]);
+  const { groups, similarity } = groupDuplicates(items, options);
+
+  const removed = new Set<YouTubeComment>();
+  const clusters: DuplicateCluster[] = groups.map((group) => {
+    const sorted = [...group].sort(
+      (a, b) =>
+        new Date(items[a]!.date).getTime() - new Date(items[b]!.date).getTime()
+    );
+    const [keptIndex, ...rest] = sorted as [number, ...number[]];
+    rest.forEach((i) => removed.add(items[i]!));
+    return {
+      kept: items[keptIndex]!,
+      duplicates: rest.map((i) => ({
+        comment: items[i]!,
+        similarity: similarity(keptIndex, i),
+      })),
+    };
+  });
+
+  const result: YouTubeComment[] = [];
+  comments.forEach((comment) => {
+    const replies = (comment.replies || []).filter((r) => !removed.has(r));
+    if (removed.has(comment)) {
+      // Cha trùng nhưng còn reply → chỉ giữ làm ngữ cảnh (như parentContext
+      // của bộ lọc), không đếm là comment
+      if (replies.length > 0) {
+        result.push({ ...comment, replies, isContext: true });
+      }
+      return;
+    }
+    result.push(
+      replies.length === (comment.replies || []).length
+        ? comment
+        : { ...comment, replies }
+    );
+  });
+
+  const keptCount = result.reduce(
+    (total, c) => total + (c.isContext ? 0 : 1) + (c.replies?.length || 0),
+    0
+  );
+
+  return {
+    comments: result,
+    clusters: clusters.sort(
+      (a, b) => b.duplicates.length - a.duplicates.length
+    ),
+    removedCount: items.length - keptCount,
+  };
+};
@@ -0,0 +1,432 @@
+// utils/filterRules.ts
+import type {
+  FilterCondition,
+  FilterConditionGroup,
+  FilterOptions,
+  FilterPreset,
+  FilterReason,
+  FilterReasonCode,
+  FilterRule,
+  RuleField,
+  RuleOperator,
+  ThreadPolicy,
+  ToxicLexicon,
+  YouTubeComment,
+} from "../types/comment";
+import { DEFAULT_MODEL_THRESHOLD } from "./classifier";
+import { stripHtmlTags } from "./format";
+import { LANGUAGE_LABELS } from "./language";
+import { containsNormalized, equalsNormalized } from "./normalize";
+import { DEFAULT_SPAM_THRESHOLD } from "./spamDetection";
+import { DEFAULT_TOXIC_LEXICON, cloneToxicLexicon } from "./toxicity";
+
+export const DEFAULT_AD_KEYWORDS = [
+  "xem tại",
+  "link",
+  "tải",
+  "download",
+  "freeship",
+  "giảm giá",
+  "khuyến mãi",
+  "inbox",
+  "zalo",
+  "mua ngay",
+  "đặt hàng",
+  "liên hệ",
+  "sale off",
+];
+
+export const DEFAULT_GENERIC_MIN_WORDS = 6;
+
+export const createDefaultFilters = (): FilterOptions => ({
+  removeEmojiOnly: false,
+  removeAdvertisements: false,
+  removeGenericComments: false,
+  // Không giới hạn ngôn ngữ: allow-list áp dụng cả replies, mà reply ngắn /
+  // emoji / trộn ngôn ngữ thì detect không chắc chắn - người dùng tự bật
+  languages: [],
+  onlyNew: false,
+  adKeywords: [...DEFAULT_AD_KEYWORDS],
+  genericMinWords: DEFAULT_GENERIC_MIN_WORDS,
+  removeSpam: false,
+  spamThreshold: DEFAULT_SPAM_THRESHOLD,
+  toxicityMode: "off",
+  toxicitySeverity: "mild",
+  toxicLexicon: cloneToxicLexicon(DEFAULT_TOXIC_LEXICON),
+  threadPolicy: "parentContext",
+  removeByModel: false,
+  modelThreshold: DEFAULT_MODEL_THRESHOLD,
+  rules: [],
+});
+
+// Nhãn + toán tử hợp lệ của từng trường (dùng cho rule builder)
+export const RULE_FIELDS: Record<
+  RuleField,
+  { label: string; operators: RuleOperator[] }
+> = {
+  text: { label: "Nội dung", operators: ["contains", "notContains", "regex"] },
+  author: { label: "Người cmt", operators: ["contains", "equals", "regex"] },
+  length: { label: "Độ dài (ký tự)", operators: ["gte", "lte"] },
+  likes: { label: "Lượt thích", operators: ["gte", "lte"] },
+  replies: { label: "Số trả lời", operators: ["gte", "lte"] },
+  date: { label: "Ngày cmt", operators: ["after", "before"] },
+  language: { label: "Ngôn ngữ", operators: ["equals"] },
+};
+
+export const RULE_OPERATOR_LABELS: Record<RuleOperator, string> = {
+  contains: "chứa",
+  notContains: "không chứa",
+  equals: "là",
+  regex: "khớp regex",
+  gte: "≥",
+  lte: "≤",
+  after: "sau",
+  before: "trước",
+};
+
+export const THREAD_POLICY_LABELS: Record<ThreadPolicy, string> = {
+  parentContext: "Giữ comment cha làm ngữ cảnh",
+  keepThread: "Giữ nguyên cả thread",
+  dropThread: "Loại cả thread",
+  promoteReplies: "Đưa replies lên cấp trên",
+};
+
+export const FILTER_REASON_LABELS: Record<FilterReasonCode, string> = {
+  onlyNew: "Không phải comment mới",
+  language: "Ngoài ngôn ngữ đã chọn",
+  emojiOnly: "Chỉ có emoji",
+  advertisement: "Quảng cáo / link",
+  generic: "Quá ngắn, đơn điệu",
+  spam: "Spam / bot",
+  toxic: "Ngôn từ thô tục",
+  model: "Mô hình tự train",
+  rule: "Rule tự định nghĩa",
+  thread: "Loại theo comment cha",
+  manual: "Loại thủ công",
+};
+
+export const formatFilterReason = (reason: FilterReason): string =>
+  reason.detail
+    ? `${FILTER_REASON_LABELS[reason.code]}: ${reason.detail}`
+    : FILTER_REASON_LABELS[reason.code];
+
+const createId = () => Math.random().toString(36).slice(2, 10);
+
+export const createCondition = (
+  field: RuleField = "text"
+): FilterCondition => ({
+  id: createId(),
+  field,
+  operator: RULE_FIELDS[field].operators[0]!,
+  value: "",
+});
+
+export const createConditionGroup = (): FilterConditionGroup => ({
+  id: createId(),
+  combinator: "and",
+  conditions: [createCondition()],
+});
+
+export const createRule = (index = 1): FilterRule => ({
+  id: createId(),
+  name: `Rule ${index}`,
+  enabled: true,
+  action: "exclude",
+  combinator: "or",
+  groups: [createConditionGroup()],
+});
+
+// Regex người dùng nhập: cache theo pattern, pattern lỗi → null
+const regexCache = new Map<string, RegExp | null>();
+
+export const compileRuleRegex = (pattern: string): RegExp | null => {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, "iu"));
+    } catch {
+      regexCache.set(pattern, null);
+    }
+  }
+  return regexCache.get(pattern) ?? null;
+};
+
+const matchText = (
+  text: string,
+  operator: RuleOperator,
+  value: string
+): boolean => {
+  // So khớp trên text đã chuẩn hoá (utils/normalize.ts), regex dùng text gốc
+  switch (operator) {
+    case "contains":
+      return containsNormalized(text, value);
+    case "notContains":
+      return !containsNormalized(text, value);
+    case "equals":
+      return equalsNormalized(text, value);
+    case "regex":
+      return compileRuleRegex(value)?.test(text) ?? false;
+    default:
+      return false;
+  }
+};
+
+const matchNumber = (
+  actual: number,
+  operator: RuleOperator,
+  value: string
+): boolean => {
+  const expected = Number(value);
+  if (value.trim() === "" || Number.isNaN(expected)) return false;
+  return operator === "gte" ? actual >= expected : actual <= expected;
+};
+
+export const matchesCondition = (
+  comment: YouTubeComment,
+  condition: FilterCondition
+): boolean => {
+  const { field, operator, value } = condition;
+
+  switch (field) {
+    case "text":
+      return matchText(stripHtmlTags(comment.content), operator, value);
+    case "author":
+      return matchText(comment.author, operator, value);
+    case "length":
+      return matchNumber(
+        Array.from(stripHtmlTags(comment.content)).length,
+        operator,
+        value
+      );
+    case "likes":
+      return matchNumber(comment.likeCount, operator, value);
+    case "replies":
+      return matchNumber(comment.replyCount, operator, value);
+    case "date": {
+      const expected = new Date(value).getTime();
+      if (Number.isNaN(expected)) return false;
+      const actual = new Date(comment.date).getTime();
+      return operator === "after" ? actual >= expected : actual <= expected;
+    }
+    case "language":
+      return comment.language === value;
+    default:
+      return false;
+  }
+};
+
+// Điều kiện chưa nhập giá trị bị bỏ qua (rule đang soạn dở không lọc gì)
+const isComplete = (condition: FilterCondition) =>
+  condition.value.trim() !== "";
+
+const combine = <T>(
+  items: T[],
+  combinator: "and" | "or",
+  test: (item: T) => boolean
+): boolean =>
+  combinator === "and" ? items.every(test) : items.some(test);
+
+const matchesGroup = (
+  comment: YouTubeComment,
+  group: FilterConditionGroup
+): boolean | null => {
+  const conditions = group.conditions.filter(isComplete);
+  if (conditions.length === 0) return null;
+  return combine(conditions, group.combinator, (c) =>
+    matchesCondition(comment, c)
+  );
+};
+
+// null = rule không có điều kiện hợp lệ nào
+export const matchesRule = (
+  comment: YouTubeComment,
+  rule: FilterRule
+): boolean | null => {
+  const results = rule.groups
+    .map((group) => matchesGroup(comment, group))
+    .filter((result): result is boolean => result !== null);
+  if (results.length === 0) return null;
+  return combine(results, rule.combinator, (result) => result);
+};
+
+// Tên các rule khiến comment bị loại (rỗng = giữ). Có rule include → phải
+// khớp ít nhất một; khớp bất kỳ rule exclude → loại
+export const getRuleRejections = (
+  comment: YouTubeComment,
+  rules: FilterRule[]
+): string[] => {
+  const rejections: string[] = [];
+  const includeRules: string[] = [];
+  let included = false;
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const matched = matchesRule(comment, rule);
+    if (matched === null) continue;
+
+    if (rule.action === "exclude") {
+      if (matched) rejections.push(rule.name);
+    } else {
+      includeRules.push(rule.name);
+      included = included || matched;
+    }
+  }
+
+  if (includeRules.length > 0 && !included) {
+    rejections.push(`không khớp ${includeRules.join(" / ")}`);
+  }
+  return rejections;
+};
+
+export const passesRules = (
+  comment: YouTubeComment,
+  rules: FilterRule[]
+): boolean => getRuleRejections(comment, rules).length === 0;
+
+// ---- Preset JSON ----
+
+const PRESET_FORMAT = "yt-cmt-filter-preset";
+const PRESET_VERSION = 1;
+
+export const serializePreset = (preset: FilterPreset): string =>
+  JSON.stringify(
+    { format: PRESET_FORMAT, version: PRESET_VERSION, ...preset },
+    null,
+    2
+  );
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseCondition = (value: unknown): FilterCondition => {
+  if (!isObject(value) || !Object.hasOwn(RULE_FIELDS, String(value.field))) {
+    throw new Error("Điều kiện trong preset không hợp lệ");
+  }
+  const field = value.field as RuleField;
+  const operator = RULE_FIELDS[field].operators.includes(
+    value.operator as RuleOperator
+  )
+    ? (value.operator as RuleOperator)
+    : RULE_FIELDS[field].operators[0]!;
+  return {
+    id: createId(),
+    field,
+    operator,
+    value: String(value.value ?? ""),
+  };
+};
+
+const parseRule = (value: unknown, index: number): FilterRule => {
+  if (!isObject(value) || !Array.isArray(value.groups)) {
+    throw new Error("Rule trong preset không hợp lệ");
+  }
+  return {
+    id: createId(),
+    name: String(value.name || `Rule ${index + 1}`),
+    enabled: value.enabled !== false,
+    action: value.action === "include" ? "include" : "exclude",
+    combinator: value.combinator === "and" ? "and" : "or",
+    groups: value.groups.map((group) => {
+      if (!isObject(group) || !Array.isArray(group.conditions)) {
+        throw new Error("Nhóm điều kiện trong preset không hợp lệ");
+      }
+      return {
+        id: createId(),
+        combinator: group.combinator === "or" ? "or" : "and",
+        conditions: group.conditions.map(parseCondition),
+      };
+    }),
+  };
+};
+
+const toStringList = (value: unknown, fallback: string[]): string[] =>
+  Array.isArray(value) ? value.map(String) : fallback;
+
+// Thiếu ngôn ngữ / mức độ nào → dùng danh sách mặc định cho phần đó
+const parseToxicLexicon = (
+  value: unknown,
+  defaults: ToxicLexicon
+): ToxicLexicon => {
+  const lexicon = cloneToxicLexicon(defaults);
+  if (!isObject(value)) return lexicon;
+  for (const language of ["vi", "zh"] as const) {
+    const lists = value[language];
+    if (!isObject(lists)) continue;
+    lexicon[language] = {
+      mild: toStringList(lists.mild, lexicon[language].mild),
+      severe: toStringList(lists.severe, lexicon[language].severe),
+    };
+  }
+  return lexicon;
+};
+
+// Đọc preset từ JSON - trường thiếu lấy mặc định, sai cấu trúc → báo lỗi
+export const parsePreset = (json: string): FilterPreset => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("File preset không phải JSON hợp lệ");
+  }
+
+  if (!isObject(data) || data.format !== PRESET_FORMAT) {
+    throw new Error("File không phải preset bộ lọc");
+  }
+  if (Number(data.version) > PRESET_VERSION) {
+    throw new Error("Preset được tạo từ phiên bản mới hơn, chưa hỗ trợ");
+  }
+  if (!isObject(data.filters)) {
+    throw new Error("Preset thiếu phần filters");
+  }
+
+  const defaults = createDefaultFilters();
+  const filters = data.filters;
+  return {
+    name: String(data.name || "Preset"),
+    savedAt: String(data.savedAt || new Date().toISOString()),
+    filters: {
+      removeEmojiOnly: filters.removeEmojiOnly === true,
+      removeAdvertisements: filters.removeAdvertisements === true,
+      removeGenericComments: filters.removeGenericComments === true,
+      languages: Array.isArray(filters.languages)
+        ? (filters.languages.filter(
+            (code) => Object.hasOwn(LANGUAGE_LABELS, String(code))
+          ) as FilterOptions["languages"])
+        : defaults.languages,
+      adKeywords: Array.isArray(filters.adKeywords)
+        ? filters.adKeywords.map(String)
+        : defaults.adKeywords,
+      genericMinWords:
+        Number(filters.genericMinWords) > 0
+          ? Number(filters.genericMinWords)
+          : defaults.genericMinWords,
+      removeSpam: filters.removeSpam === true,
+      spamThreshold:
+        Number(filters.spamThreshold) > 0 && Number(filters.spamThreshold) <= 1
+          ? Number(filters.spamThreshold)
+          : defaults.spamThreshold,
+      toxicityMode:
+        filters.toxicityMode === "remove" || filters.toxicityMode === "mask"
+          ? filters.toxicityMode
+          : "off",
+      toxicitySeverity:
+        filters.toxicitySeverity === "severe" ? "severe" : "mild",
+      toxicLexicon: parseToxicLexicon(
+        filters.toxicLexicon,
+        defaults.toxicLexicon
+      ),
+      threadPolicy:
+        Object.hasOwn(THREAD_POLICY_LABELS, String(filters.threadPolicy))
+          ? (filters.threadPolicy as ThreadPolicy)
+          : defaults.threadPolicy,
+      removeByModel: filters.removeByModel === true,
+      modelThreshold:
+        Number(filters.modelThreshold) > 0 &&
+        Number(filters.modelThreshold) <= 1
+          ? Number(filters.modelThreshold)
+          : defaults.modelThreshold,
+      rules: Array.isArray(filters.rules)
+        ? filters.rules.map(parseRule)
+        : [],
+    },
+  };
+};
@@ -15,6 +15,20 @@ export const formatNumber = (num: number): string => {
   return new Intl.NumberFormat("vi-VN").format(num);
 };
 
+// Thời lượng ISO 8601 của YouTube ("PT1H2M3S") → "1:02:03"
+export const formatDuration = (duration: string): string => {
+  const match = duration.match(
+    /^P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/
+  );
+  if (!match) return duration;
+
+  const [, days = "0", hours = "0", minutes = "0", seconds = "0"] = match;
+  const totalHours = parseInt(days) * 24 + parseInt(hours);
+  const mm = totalHours > 0 ? minutes.padStart(2, "0") : minutes;
+  const ss = seconds.padStart(2, "0");
+  return totalHours > 0 ? `${totalHours}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
 export const estimateCommentRange = (count: number): string => {
   if (count < 100) {
     return `${count}`;
@@ -45,7 +59,11 @@ export const decodeHtmlEntities = (text: string): string => {
 };
 
 // Sanitize và format comment content từ YouTube
-export const formatYouTubeComment = (htmlContent: string): string => {
+// mask: che từ trên phần text (không đụng vào thẻ / link), vd. lọc thô tục
+export const formatYouTubeComment = (
+  htmlContent: string,
+  mask?: (text: string) => string
+): string => {
   // Decode HTML entities
   const decoded = decodeHtmlEntities(htmlContent);
 
@@ -55,7 +73,11 @@ export const formatYouTubeComment = (htmlContent: string): string => {
     .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, "")
     .replace(/<iframe\b[^<]*(?:(?!<\/iframe>)<[^<]*)*<\/iframe>/gi, "");
 
-  return sanitized;
+  if (!mask) return sanitized;
+  return sanitized
+    .split(/(<[^>]*>)/)
+    .map((part) => (part.startsWith("<") ? part : mask(part)))
+    .join("");
 };
 
 // Strip HTML tags và convert về plain text (cho Excel export)
@@ -0,0 +1,158 @@
+// utils/idb.ts
+
+// Key-value store nhỏ trên IndexedDB (dữ liệu lớn hơn giới hạn ~5MB của localStorage)
+const DB_NAME = "yt-cmt-filter";
+const DB_VERSION = 4;
+
+export const IDB_STORES = [
+  "checkpoints",
+  "snapshots",
+  "projects",
+  "translations",
+] as const;
+
+export type IdbStoreName = (typeof IDB_STORES)[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    // Tạo các store còn thiếu khi nâng version
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      IDB_STORES.forEach((store) => {
+        if (!db.objectStoreNames.contains(store)) {
+          db.createObjectStore(store);
+        }
+      });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const isIdbAvailable = (): boolean => {
+  return typeof indexedDB !== "undefined";
+};
+
+const runRequest = async <T>(
+  store: IdbStoreName,
+  mode: IDBTransactionMode,
+  action: (objectStore: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = action(transaction.objectStore(store));
+
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const idbGet = async <T>(
+  store: IdbStoreName,
+  key: string
+): Promise<T | undefined> => {
+  // Server-side: không có IndexedDB
+  if (!isIdbAvailable()) return undefined;
+
+  return runRequest<T | undefined>(store, "readonly", (s) => s.get(key));
+};
+
+export const idbSet = async <T>(
+  store: IdbStoreName,
+  key: string,
+  value: T
+): Promise<void> => {
+  if (!isIdbAvailable()) return;
+
+  await runRequest(store, "readwrite", (s) => s.put(value, key));
+};
+
+export const idbDelete = async (
+  store: IdbStoreName,
+  key: string
+): Promise<void> => {
+  if (!isIdbAvailable()) return;
+
+  await runRequest(store, "readwrite", (s) => s.delete(key));
+};
+
+export const idbKeys = async (store: IdbStoreName): Promise<string[]> => {
+  if (!isIdbAvailable()) return [];
+
+  return runRequest<string[]>(store, "readonly", (s) => s.getAllKeys());
+};
+
+// Nhiều key trong 1 transaction (bộ nhớ dịch tra hàng nghìn key mỗi lượt)
+export const idbGetMany = async <T>(
+  store: IdbStoreName,
+  keys: string[]
+): Promise<Array<T | undefined>> => {
+  if (!isIdbAvailable() || keys.length === 0) {
+    return keys.map(() => undefined);
+  }
+
+  const db = await openDb();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, "readonly");
+    const objectStore = transaction.objectStore(store);
+    const requests = keys.map((key) => objectStore.get(key));
+
+    transaction.oncomplete = () =>
+      resolve(requests.map((request) => request.result as T | undefined));
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const idbSetMany = async <T>(
+  store: IdbStoreName,
+  entries: Array<[key: string, value: T]>
+): Promise<void> => {
+  if (!isIdbAvailable() || entries.length === 0) return;
+
+  const db = await openDb();
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(store, "readwrite");
+    const objectStore = transaction.objectStore(store);
+    entries.forEach(([key, value]) => objectStore.put(value, key));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const idbGetAll = async <T>(store: IdbStoreName): Promise<T[]> => {
+  if (!isIdbAvailable()) return [];
+
+  return runRequest<T[]>(store, "readonly", (s) => s.getAll());
+};
+
+export const idbCount = async (store: IdbStoreName): Promise<number> => {
+  if (!isIdbAvailable()) return 0;
+
+  return runRequest<number>(store, "readonly", (s) => s.count());
+};
+
+export const idbClear = async (store: IdbStoreName): Promise<void> => {
+  if (!isIdbAvailable()) return;
+
+  await runRequest(store, "readwrite", (s) => s.clear());
+};
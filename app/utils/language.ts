@@ -0,0 +1,226 @@
+// utils/language.ts
+import type { LanguageCode } from "../types/comment";
+
+export const LANGUAGE_LABELS: Record<LanguageCode, string> = {
+  vi: "Tiếng Việt",
+  zh: "Tiếng Trung",
+  en: "Tiếng Anh",
+  th: "Tiếng Thái",
+  ja: "Tiếng Nhật",
+  ko: "Tiếng Hàn",
+  unknown: "Không xác định",
+};
+
+// Dấu tiếng Việt - tín hiệu mạnh nhất cho chữ Latin
+const VIETNAMESE_CHARS =
+  /[àáạảãâầấậẩẫăằắặẳẵèéẹẻẽêềếệểễìíịỉĩòóọỏõôồốộổỗơờớợởỡùúụủũưừứựửữỳýỵỷỹđ]/gi;
+
+// Trigram phổ biến (xếp theo tần suất giảm dần) - dùng cho comment không dấu
+// Khoảng trắng đánh dấu đầu/cuối từ
+const NGRAM_PROFILES: Record<"vi" | "en", string[]> = {
+  vi: [
+    "ng ",
+    " nh",
+    " th",
+    "nh ",
+    " ng",
+    "ong",
+    " kh",
+    "anh",
+    " co",
+    " tr",
+    "inh",
+    "hon",
+    "kho",
+    " ch",
+    "ung",
+    "oi ",
+    "ai ",
+    "qua",
+    "ua ",
+    " la",
+    "la ",
+    "uoc",
+    "duo",
+    " du",
+    "ien",
+    "ach",
+    "ay ",
+    "hay",
+    " ha",
+    "ieu",
+    "uon",
+    "ich",
+    "ang",
+    " mi",
+    "min",
+    " ph",
+    "phi",
+    "him",
+    " vi",
+    "iet",
+    "ao ",
+    " ko",
+    "ko ",
+    " dc",
+    "dc ",
+    "cua",
+    "hie",
+    "nhi",
+    "thi",
+    "oa ",
+    "yen",
+    "tho",
+    "uoi",
+    "roi",
+    " ro",
+    "ti ",
+    "em ",
+    " em",
+    "ban",
+  ],
+  en: [
+    " th",
+    "the",
+    "he ",
+    "ing",
+    "ng ",
+    " an",
+    "and",
+    "nd ",
+    " to",
+    "to ",
+    "is ",
+    " is",
+    "ion",
+    "tio",
+    "er ",
+    "ed ",
+    "es ",
+    "re ",
+    " yo",
+    "you",
+    "ou ",
+    "tha",
+    "hat",
+    "at ",
+    " of",
+    "of ",
+    " it",
+    "it ",
+    "thi",
+    "his",
+    " wh",
+    "ent",
+    " be",
+    "for",
+    " fo",
+    "or ",
+    "ove",
+    "lov",
+    " lo",
+    "ve ",
+    "ly ",
+    " wa",
+    "was",
+    "as ",
+    "all",
+    "ll ",
+    " so",
+    "so ",
+    " my",
+    "my ",
+    "ere",
+    "her",
+    "ter",
+    "est",
+    " ca",
+    "an ",
+    " in",
+    "in ",
+    "on ",
+    "e t",
+  ],
+};
+
+// Đếm số ký tự theo từng hệ chữ
+const countScripts = (text: string) => {
+  return {
+    han: (text.match(/\p{Script=Han}/gu) || []).length,
+    kana: (text.match(/[\p{Script=Hiragana}\p{Script=Katakana}]/gu) || [])
+      .length,
+    hangul: (text.match(/\p{Script=Hangul}/gu) || []).length,
+    thai: (text.match(/\p{Script=Thai}/gu) || []).length,
+    latin: (text.match(/\p{Script=Latin}/gu) || []).length,
+  };
+};
+
+// Bỏ HTML, link, mention, số và ký hiệu - chỉ giữ chữ
+const cleanForDetection = (text: string): string => {
+  return text
+    .replace(/<[^>]*>/g, " ")
+    .replace(/https?:\/\/\S+|www\.\S+/gi, " ")
+    .replace(/@\S+/g, " ")
+    .replace(/[^\p{L}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+};
+
+// Điểm giống profile: trigram càng phổ biến trong profile càng được nhiều điểm
+const scoreNgrams = (text: string, profile: string[]): number => {
+  const padded = ` ${text} `;
+  let score = 0;
+  let count = 0;
+
+  for (let i = 0; i < padded.length - 2; i++) {
+    const gram = padded.slice(i, i + 3);
+    if (gram === "   ") continue;
+    count++;
+    const rank = profile.indexOf(gram);
+    if (rank !== -1) {
+      score += (profile.length - rank) / profile.length;
+    }
+  }
+
+  return count > 0 ? score / count : 0;
+};
+
+// Chữ Latin: dấu tiếng Việt → vi, không thì so sánh trigram vi/en
+const detectLatinLanguage = (text: string, latinCount: number) => {
+  const vietnameseCount = (text.match(VIETNAMESE_CHARS) || []).length;
+  if (vietnameseCount > 0 && vietnameseCount / latinCount >= 0.05) {
+    return "vi";
+  }
+
+  // Bỏ dấu để comment có vài ký tự có dấu vẫn so được với profile
+  const folded = text.normalize("NFD").replace(/\p{M}/gu, "");
+  const viScore = scoreNgrams(folded, NGRAM_PROFILES.vi);
+  const enScore = scoreNgrams(folded, NGRAM_PROFILES.en);
+
+  if (Math.max(viScore, enScore) < 0.05) return "unknown";
+  return viScore >= enScore ? "vi" : "en";
+};
+
+// Nhận diện ngôn ngữ của comment (chạy local, không gọi API)
+export const detectLanguage = (text: string): LanguageCode => {
+  const cleaned = cleanForDetection(text);
+  if (!cleaned) return "unknown";
+
+  const scripts = countScripts(cleaned);
+  const cjk = scripts.han + scripts.kana;
+  const total = cjk + scripts.hangul + scripts.thai + scripts.latin;
+  if (total === 0) return "unknown";
+
+  // Hệ chữ chiếm ưu thế quyết định ngôn ngữ
+  const dominant = Math.max(cjk, scripts.hangul, scripts.thai, scripts.latin);
+
+  if (dominant === scripts.thai) return "th";
+  if (dominant === scripts.hangul) return "ko";
+  if (dominant === cjk) {
+    // Có kana → tiếng Nhật, chỉ có chữ Hán → tiếng Trung
+    return scripts.kana > 0 && scripts.kana / cjk >= 0.1 ? "ja" : "zh";
+  }
+
+  return detectLatinLanguage(cleaned, scripts.latin);
+};
@@ -0,0 +1,172 @@
+// utils/normalize.ts
+
+// Chuẩn hoá text tiếng Việt để so khớp từ khoá / tìm kiếm: người viết spam
+// hay né bộ lọc bằng "giam gia", "g.i.ả.m g.i.á", "zal0", teencode...
+
+export interface NormalizeOptions {
+  foldDiacritics?: boolean; // "giảm giá" → "giam gia"
+  mapLeet?: boolean; // "zal0" → "zalo", teencode "ko" → "không"
+  joinSeparated?: boolean; // "g.i.ả.m" → "giảm", "z a l o" → "zalo"
+}
+
+const FULL_NORMALIZE: NormalizeOptions = {
+  foldDiacritics: true,
+  mapLeet: true,
+  joinSeparated: true,
+};
+
+// Chỉ đổi khi đứng ngay sau một chữ cái ("zal0", "gi4m") - số như "500k",
+// "0912..." giữ nguyên
+const LEET_CHARS: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  $: "s",
+};
+
+// Teencode phổ biến → từ đầy đủ (khoá có cả dạng có / không dấu)
+const TEENCODE: Record<string, string> = {
+  ko: "không",
+  k: "không",
+  kh: "không",
+  kg: "không",
+  hok: "không",
+  hông: "không",
+  khum: "không",
+  dc: "được",
+  đc: "được",
+  dk: "được",
+  đk: "được",
+  j: "gì",
+  r: "rồi",
+  vs: "với",
+  mn: "mọi người",
+  mng: "mọi người",
+  ns: "nói",
+  bn: "bạn",
+  ib: "inbox",
+  sdt: "số điện thoại",
+  sđt: "số điện thoại",
+  zl: "zalo",
+};
+
+// Dấu ngăn giữa các ký tự trong một từ ("g.i.ả.m", "z-a-l-o", "s*a*l*e")
+const INNER_SEPARATORS = /(?<=[\p{L}\p{N}])[._\-*|~'`·]+(?=[\p{L}\p{N}])/gu;
+// >= 3 chữ cái đứng riêng cách nhau bởi khoảng trắng ("z a l o")
+const SPACED_LETTERS = /(?<![\p{L}\p{N}])\p{L}(?: \p{L}){2,}(?![\p{L}\p{N}])/gu;
+
+export const foldDiacritics = (text: string): string =>
+  text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .replace(/đ/g, "d")
+    .replace(/Đ/g, "D")
+    .normalize("NFC");
+
+// Có dấu tiếng Việt hay không (text viết không dấu → so khớp bỏ dấu)
+export const hasDiacritics = (text: string): boolean =>
+  /\p{M}|đ/iu.test(text.normalize("NFD"));
+
+const mapLeetChars = (text: string): string => {
+  let result = "";
+  for (const char of text) {
+    const mapped = LEET_CHARS[char];
+    result += mapped && /\p{L}$/u.test(result) ? mapped : char;
+  }
+  return result;
+};
+
+export const normalizeText = (
+  text: string,
+  options: NormalizeOptions = FULL_NORMALIZE
+): string => {
+  let result = text.normalize("NFC").toLowerCase();
+
+  if (options.joinSeparated) {
+    result = result
+      .replace(INNER_SEPARATORS, "")
+      .replace(SPACED_LETTERS, (match) => match.replace(/ /g, ""));
+  }
+
+  if (options.mapLeet) {
+    result = mapLeetChars(result).replace(
+      /[\p{L}\p{N}]+/gu,
+      (word) => TEENCODE[word] ?? word
+    );
+  }
+
+  if (options.foldDiacritics) {
+    result = foldDiacritics(result);
+  }
+
+  return result.replace(/\s+/g, " ").trim();
+};
+
+const isWordChar = (char: string | undefined) =>
+  !!char && /[\p{L}\p{N}]/u.test(char);
+
+// So khớp từ khoá / cụm từ sau chuẩn hoá. Bỏ dấu chỉ khi từ khoá hoặc đoạn
+// text khớp được viết không dấu - "giam gia" khớp "giảm giá" nhưng "tải"
+// không khớp nhầm "tại"
+// wholeWord: khớp nguyên từ ("tai" không khớp "taiwan"); tiếng Trung không
+// có khoảng trắng nên luôn so chuỗi con
+export const containsNormalized = (
+  text: string,
+  query: string,
+  wholeWord = false
+): boolean => {
+  const accented = { ...FULL_NORMALIZE, foldDiacritics: false };
+  const accentedHaystack = normalizeText(text, accented);
+  const accentedNeedle = normalizeText(query, accented);
+  if (!accentedNeedle) return false;
+
+  // Bỏ dấu trên chuỗi NFC giữ nguyên độ dài → vị trí khớp dùng chung
+  const haystack = foldDiacritics(accentedHaystack);
+  const needle = foldDiacritics(accentedNeedle);
+  const checkAccents =
+    hasDiacritics(accentedNeedle) &&
+    haystack.length === accentedHaystack.length;
+  const checkWords = wholeWord && !/\p{Script=Han}/u.test(needle);
+
+  for (
+    let index = haystack.indexOf(needle);
+    index !== -1;
+    index = haystack.indexOf(needle, index + 1)
+  ) {
+    const end = index + needle.length;
+    if (
+      checkWords &&
+      (isWordChar(haystack[index - 1]) || isWordChar(haystack[end]))
+    ) {
+      continue;
+    }
+    const region = accentedHaystack.slice(index, end);
+    if (!checkAccents || !hasDiacritics(region) || region === accentedNeedle) {
+      return true;
+    }
+  }
+  return false;
+};
+
+export const equalsNormalized = (text: string, value: string): boolean => {
+  const accented = { ...FULL_NORMALIZE, foldDiacritics: false };
+  const accentedText = normalizeText(text, accented);
+  const accentedValue = normalizeText(value, accented);
+  if (accentedText === accentedValue) return true;
+  return (
+    (!hasDiacritics(accentedValue) || !hasDiacritics(accentedText)) &&
+    foldDiacritics(accentedText) === foldDiacritics(accentedValue)
+  );
+};
+
+// Ô tìm kiếm trong các bảng: bỏ dấu hoàn toàn, chuẩn hoá query một lần
+export const createSearchMatcher = (query: string) => {
+  const needle = normalizeText(query);
+  return (...fields: Array<string | undefined>): boolean =>
+    !needle ||
+    fields.some((field) => !!field && normalizeText(field).includes(needle));
+};
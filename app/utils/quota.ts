@@ -0,0 +1,83 @@
+// utils/quota.ts
+
+// Chi phí quota YouTube Data API v3 (units / request) theo route server/api/youtube/*
+export const QUOTA_COSTS = {
+  videos: 1,
+  "comment-threads": 1,
+  comments: 1,
+  "playlist-items": 1,
+  channels: 1,
+} as const;
+
+export type YouTubeResource = keyof typeof QUOTA_COSTS;
+
+// Quota mặc định của một project Google Cloud / ngày
+export const DAILY_QUOTA = 10000;
+
+// Ước lượng tỷ lệ thread có replies - mỗi thread như vậy tốn ít nhất 1 call comments
+const REPLY_THREAD_RATIO = 0.1;
+
+// Ước tính units cần để crawl một video từ commentCount (getVideoDetails)
+// commentThreads: 100 thread / page; comments: 1 call / thread có replies
+export const estimateCrawlQuota = (commentCount: number): number => {
+  if (commentCount <= 0) return QUOTA_COSTS["comment-threads"];
+
+  const threadPages = Math.ceil(commentCount / 100);
+  const replyCalls = Math.ceil(commentCount * REPLY_THREAD_RATIO);
+  return (
+    threadPages * QUOTA_COSTS["comment-threads"] +
+    replyCalls * QUOTA_COSTS.comments
+  );
+};
+
+export interface QuotaUsage {
+  estimated: number;
+  spent: number;
+  budget: number | null; // null = không giới hạn
+}
+
+// Job dừng vì chạm budget người dùng đặt hoặc YouTube trả 403 quotaExceeded
+export class QuotaExhaustedError extends Error {
+  reason: "budget" | "quota";
+
+  constructor(reason: "budget" | "quota") {
+    super(
+      reason === "budget"
+        ? "Đã chạm giới hạn quota đặt cho job"
+        : "YouTube API đã hết quota trong ngày"
+    );
+    this.name = "QuotaExhaustedError";
+    this.reason = reason;
+  }
+}
+
+// Đếm units đã dùng của một job - chặn request trước khi vượt budget
+export const createQuotaTracker = (
+  budget: number | null,
+  onChange?: (usage: QuotaUsage) => void
+) => {
+  const usage: QuotaUsage = { estimated: 0, spent: 0, budget };
+  const report = () => onChange?.({ ...usage });
+
+  const charge = (resource: YouTubeResource) => {
+    const cost = QUOTA_COSTS[resource];
+    if (budget !== null && usage.spent + cost > budget) {
+      throw new QuotaExhaustedError("budget");
+    }
+    usage.spent += cost;
+    report();
+  };
+
+  const setEstimate = (units: number) => {
+    usage.estimated = units;
+    report();
+  };
+
+  return {
+    usage,
+    charge,
+    setEstimate,
+  };
+};
+
+export type QuotaTracker = ReturnType<typeof createQuotaTracker>;
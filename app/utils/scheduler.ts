@@ -0,0 +1,188 @@
+// utils/scheduler.ts
+import { createAbortError, isAbortError, sleep, throwIfAborted } from "./abort";
+
+// Giới hạn của một API: token bucket (tốc độ) + concurrency thích ứng (AIMD)
+export interface SchedulerLimits {
+  name: string; // Dùng trong log
+  ratePerSecond: number; // Tốc độ nạp token
+  burst: number; // Dung lượng bucket
+  initialConcurrency: number;
+  maxConcurrency: number;
+  maxRetries: number;
+  baseDelay: number; // Backoff (ms) khi lỗi không kèm Retry-After
+}
+
+export interface ScheduleOptions {
+  signal?: AbortSignal;
+  // Lỗi riêng của API cũng tính là bị giới hạn (vd. 403 rateLimitExceeded)
+  isThrottled?: (error: unknown) => boolean;
+}
+
+// Lỗi $fetch (ofetch FetchError) - status + header của response
+interface HttpError {
+  name?: string;
+  status?: number;
+  statusCode?: number;
+  response?: {
+    status?: number;
+    headers?: { get: (name: string) => string | null };
+  };
+}
+
+const getStatus = (error: unknown): number | undefined => {
+  const err = error as HttpError | null;
+  return err?.status ?? err?.statusCode ?? err?.response?.status;
+};
+
+// Retry-After: số giây hoặc HTTP-date → ms, null nếu không có
+export const parseRetryAfter = (error: unknown): number | null => {
+  const value = (error as HttpError | null)?.response?.headers?.get(
+    "retry-after"
+  );
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// 429 / 5xx / mất mạng (FetchError không có response) → retry được
+const isTransientError = (error: unknown): boolean => {
+  const status = getStatus(error);
+  if (status === undefined) {
+    return (error as HttpError | null)?.name === "FetchError";
+  }
+  return status === 408 || status === 429 || status >= 500;
+};
+
+// Mọi request ra ngoài của một API đi qua đây:
+// - token bucket giới hạn số request / giây
+// - concurrency tăng dần khi thành công, giảm một nửa khi bị 429 / 5xx
+// - Retry-After dừng cả API đến hết thời gian chờ, không chỉ request lỗi
+export const createApiScheduler = (limits: SchedulerLimits) => {
+  let tokens = limits.burst;
+  let lastRefill = Date.now();
+  let concurrency = limits.initialConcurrency;
+  let active = 0;
+  let successStreak = 0;
+  let pausedUntil = 0;
+  const waiters = new Set<() => void>();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(
+      limits.burst,
+      tokens + ((now - lastRefill) / 1000) * limits.ratePerSecond
+    );
+    lastRefill = now;
+  };
+
+  // Chờ tới khi có slot trống (release đánh thức mọi request đang chờ)
+  const waitForSlot = (signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        waiters.delete(wake);
+        reject(createAbortError());
+      };
+      const wake = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      waiters.add(wake);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  };
+
+  const acquire = async (signal?: AbortSignal) => {
+    for (;;) {
+      throwIfAborted(signal);
+      refill();
+      const now = Date.now();
+
+      if (now < pausedUntil) {
+        await sleep(pausedUntil - now, signal);
+      } else if (active >= concurrency) {
+        await waitForSlot(signal);
+      } else if (tokens < 1) {
+        await sleep(((1 - tokens) / limits.ratePerSecond) * 1000, signal);
+      } else {
+        tokens -= 1;
+        active++;
+        return;
+      }
+    }
+  };
+
+  const release = () => {
+    active--;
+    const pending = Array.from(waiters);
+    waiters.clear();
+    pending.forEach((wake) => wake());
+  };
+
+  // Additive increase: mỗi "vòng" request thành công thì thêm một slot
+  const onSuccess = () => {
+    successStreak++;
+    if (successStreak >= concurrency && concurrency < limits.maxConcurrency) {
+      concurrency++;
+      successStreak = 0;
+    }
+  };
+
+  // Multiplicative decrease
+  const onThrottled = (retryAfter: number | null) => {
+    successStreak = 0;
+    concurrency = Math.max(1, Math.floor(concurrency / 2));
+    if (retryAfter !== null) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + retryAfter);
+    }
+  };
+
+  const run = async <T>(
+    task: () => Promise<T>,
+    options: ScheduleOptions = {}
+  ): Promise<T> => {
+    const { signal, isThrottled } = options;
+
+    for (let attempt = 0; ; attempt++) {
+      await acquire(signal);
+
+      let result: T;
+      try {
+        result = await task();
+      } catch (error) {
+        release();
+        if (isAbortError(error)) throw error;
+
+        const throttled = getStatus(error) === 429 || !!isThrottled?.(error);
+        if (!throttled && !isTransientError(error)) throw error;
+
+        const retryAfter = parseRetryAfter(error);
+        onThrottled(retryAfter);
+        if (attempt + 1 >= limits.maxRetries) throw error;
+
+        // Có Retry-After thì acquire() tự chờ tới pausedUntil
+        const delay = retryAfter ?? limits.baseDelay * Math.pow(2, attempt);
+        console.warn(
+          `⚠️ [${limits.name}] ${
+            throttled ? "Bị giới hạn" : "Lỗi tạm thời"
+          } - retry ${attempt + 1}/${limits.maxRetries} sau ${
+            delay / 1000
+          }s (concurrency ${concurrency})`
+        );
+        if (retryAfter === null) await sleep(delay, signal);
+        continue;
+      }
+
+      release();
+      onSuccess();
+      return result;
+    }
+  };
+
+  return { run };
+};
+
+export type ApiScheduler = ReturnType<typeof createApiScheduler>;
@@ -0,0 +1,206 @@
+// utils/spamDetection.ts
+import type { SpamSignal, YouTubeComment } from "../types/comment";
+import { groupDuplicates, normalizeForDedupe } from "./dedupe";
+import { stripHtmlTags } from "./format";
+
+// Phát hiện spam / bot trên toàn bộ comment của một job (chạy sau khi crawl
+// xong): chấm điểm theo cụm nội dung giống nhau và theo từng tác giả
+
+export const SPAM_SIGNAL_LABELS: Record<SpamSignal, string> = {
+  burst: "Đăng dồn dập",
+  crossAuthor: "Nhiều tài khoản cùng nội dung",
+  contactReuse: "Dùng chung SĐT / link / Zalo",
+  authorVolume: "Một tài khoản đăng quá nhiều",
+  namePattern: "Tên mặc định @user-xxxx",
+};
+
+// Trọng số cộng dồn, điểm tối đa 1
+const SIGNAL_WEIGHTS: Record<SpamSignal, number> = {
+  burst: 0.3,
+  crossAuthor: 0.4,
+  contactReuse: 0.5,
+  authorVolume: 0.3,
+  namePattern: 0.1,
+};
+
+export const DEFAULT_SPAM_THRESHOLD = 0.5;
+
+const SIMILARITY_THRESHOLD = 0.7;
+// Câu ngắn kiểu "hay quá", "first" trùng nhau là bình thường
+const MIN_CLUSTER_TEXT_LENGTH = 15;
+const MIN_CLUSTER_AUTHORS = 3;
+const BURST_WINDOW_MS = 10 * 60 * 1000;
+const BURST_MIN_COMMENTS = 3;
+const AUTHOR_VOLUME_MIN = 8;
+const AUTHOR_BURST_MIN = 5;
+
+const DEFAULT_HANDLE_PATTERN = /^@user-[a-z0-9]{6,}$/i;
+
+// SĐT Việt Nam (0xx / +84xx, cho phép dấu cách / chấm / gạch)
+const PHONE_PATTERN = /(?:\+?84|0)(?:[\s.-]?\d){8,10}/g;
+// Link, tài khoản Zalo / Telegram / t.me (Zalo theo SĐT đã tính ở trên)
+const LINK_PATTERN =
+  /https?:\/\/\S+|www\.\S+|(?:zalo|zl|tele(?:gram)?|t\.me)[\s.:/]*@?[a-z_][\w.]{2,}/gi;
+
+const authorKey = (comment: YouTubeComment) =>
+  comment.authorChannelId || comment.author;
+
+const timeOf = (comment: YouTubeComment) => new Date(comment.date).getTime();
+
+// Liên hệ đã chuẩn hoá: SĐT chỉ giữ chữ số (+84 → 0), link bỏ giao thức
+export const extractContacts = (text: string): string[] => {
+  const plain = stripHtmlTags(text);
+  const contacts = new Set<string>();
+
+  for (const match of plain.match(PHONE_PATTERN) || []) {
+    contacts.add(match.replace(/\D/g, "").replace(/^84/, "0"));
+  }
+  for (const match of plain.match(LINK_PATTERN) || []) {
+    contacts.add(
+      match
+        .toLowerCase()
+        .replace(/^https?:\/\/(www\.)?|^www\./, "")
+        .replace(/[\s.:/@]+/g, ":")
+        .replace(/:+$/, "")
+    );
+  }
+  return Array.from(contacts);
+};
+
+// Chỉ số các comment nằm trong một cửa sổ thời gian có >= minCount comment
+// (của >= minCount tác giả khác nhau nếu distinctAuthors)
+// Sắp xếp một lần + cửa sổ trượt, đếm tác giả tăng dần - O(n log n)
+const findBursts = (
+  items: YouTubeComment[],
+  indexes: number[],
+  minCount: number,
+  distinctAuthors: boolean
+): number[] => {
+  const sorted = indexes
+    .map((i) => ({ i, time: timeOf(items[i]!), author: authorKey(items[i]!) }))
+    .sort((a, b) => a.time - b.time);
+  const inBurst: number[] = [];
+  const authorCounts = new Map<string, number>();
+  let start = 0;
+  let marked = 0; // sorted[0..marked) đã nằm trong inBurst
+
+  for (let end = 0; end < sorted.length; end++) {
+    const current = sorted[end]!;
+    authorCounts.set(
+      current.author,
+      (authorCounts.get(current.author) || 0) + 1
+    );
+
+    while (current.time - sorted[start]!.time > BURST_WINDOW_MS) {
+      const { author } = sorted[start]!;
+      const count = authorCounts.get(author)! - 1;
+      if (count === 0) authorCounts.delete(author);
+      else authorCounts.set(author, count);
+      start++;
+    }
+
+    const count = distinctAuthors ? authorCounts.size : end - start + 1;
+    if (count >= minCount) {
+      // Cửa sổ chỉ trượt về phía sau → chỉ thêm phần chưa đánh dấu
+      for (let k = Math.max(start, marked); k <= end; k++) {
+        inBurst.push(sorted[k]!.i);
+      }
+      marked = end + 1;
+    }
+  }
+
+  return inBurst;
+};
+
+// Gắn spamScore / spamSignals cho comment cha và replies (trả về mảng mới)
+export const annotateSpam = (comments: YouTubeComment[]): YouTubeComment[] => {
+  const items = comments.flatMap((c) => [c, ...(c.replies || [])]);
+  const signals = items.map(() => new Set<SpamSignal>());
+  const flag = (indexes: number[], signal: SpamSignal) =>
+    indexes.forEach((i) => signals[i]!.add(signal));
+
+  // Bình luận / trả lời của chủ kênh không bao giờ là spam
+  const candidates = items
+    .map((item, i) => (item.isCreator ? -1 : i))
+    .filter((i) => i >= 0);
+
+  // 1. Cụm nội dung gần giống nhau giữa nhiều tài khoản
+  const { groups } = groupDuplicates(items, {
+    strategy: "near",
+    threshold: SIMILARITY_THRESHOLD,
+  });
+  for (const group of groups) {
+    const members = group.filter(
+      (i) =>
+        !items[i]!.isCreator &&
+        normalizeForDedupe(items[i]!.content).length >= MIN_CLUSTER_TEXT_LENGTH
+    );
+    const authors = new Set(members.map((i) => authorKey(items[i]!)));
+    if (authors.size < MIN_CLUSTER_AUTHORS) continue;
+
+    flag(members, "crossAuthor");
+    flag(findBursts(items, members, BURST_MIN_COMMENTS, true), "burst");
+  }
+
+  // 2. Cùng SĐT / link / Zalo xuất hiện ở nhiều tài khoản
+  const byContact = new Map<string, number[]>();
+  for (const i of candidates) {
+    for (const contact of extractContacts(items[i]!.content)) {
+      if (!byContact.has(contact)) byContact.set(contact, []);
+      byContact.get(contact)!.push(i);
+    }
+  }
+  byContact.forEach((indexes) => {
+    const authors = new Set(indexes.map((i) => authorKey(items[i]!)));
+    if (authors.size >= 2) flag(indexes, "contactReuse");
+  });
+
+  // 3. Một tài khoản đăng quá nhiều / dồn dập
+  const byAuthor = new Map<string, number[]>();
+  for (const i of candidates) {
+    const key = authorKey(items[i]!);
+    if (!byAuthor.has(key)) byAuthor.set(key, []);
+    byAuthor.get(key)!.push(i);
+  }
+  byAuthor.forEach((indexes) => {
+    if (indexes.length >= AUTHOR_VOLUME_MIN) flag(indexes, "authorVolume");
+    flag(findBursts(items, indexes, AUTHOR_BURST_MIN, false), "burst");
+  });
+
+  // 4. Tên mặc định chỉ là tín hiệu phụ - không tự nó đánh dấu spam
+  for (const i of candidates) {
+    if (signals[i]!.size > 0 && DEFAULT_HANDLE_PATTERN.test(items[i]!.author)) {
+      signals[i]!.add("namePattern");
+    }
+  }
+
+  // Chấm điểm theo tác giả: mọi comment của một tài khoản mang chung tín
+  // hiệu của tài khoản đó
+  const authorSignals = new Map<string, Set<SpamSignal>>();
+  items.forEach((item, i) => {
+    const key = authorKey(item);
+    if (!authorSignals.has(key)) authorSignals.set(key, new Set());
+    signals[i]!.forEach((signal) => authorSignals.get(key)!.add(signal));
+  });
+
+  const annotated = new Map<YouTubeComment, YouTubeComment>();
+  items.forEach((item) => {
+    const set = item.isCreator
+      ? new Set<SpamSignal>()
+      : authorSignals.get(authorKey(item))!;
+    const score = Array.from(set).reduce(
+      (sum, signal) => sum + SIGNAL_WEIGHTS[signal],
+      0
+    );
+    annotated.set(item, {
+      ...item,
+      spamScore: Math.round(Math.min(1, score) * 100) / 100,
+      spamSignals: Array.from(set),
+    });
+  });
+
+  return comments.map((comment) => ({
+    ...annotated.get(comment)!,
+    replies: comment.replies?.map((reply) => annotated.get(reply)!),
+  }));
+};
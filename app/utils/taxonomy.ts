@@ -0,0 +1,250 @@
+// utils/taxonomy.ts
+import type {
+  Taxonomy,
+  TaxonomyCategory,
+  TaxonomySnapshot,
+} from "../types/taxonomy";
+
+// Nhãn gán cho comment AI không phân loại được / batch lỗi
+export const UNCATEGORIZED_LABEL = "未分类";
+
+export const MAX_TAXONOMY_CATEGORIES = 30;
+
+export const DEFAULT_TAXONOMY_ID = "tay-du-ky";
+
+const createId = () => Math.random().toString(36).slice(2, 10);
+
+// JSON clone thay vì structuredClone: dữ liệu thường là reactive proxy lấy
+// từ project, structuredClone không clone được proxy
+const cloneCategories = (categories: TaxonomyCategory[]) =>
+  JSON.parse(JSON.stringify(categories)) as TaxonomyCategory[];
+
+// Bộ chủ đề mặc định: 6 chủ đề Tây Du Ký (T1-T6 theo file mẫu) trước đây
+// cố định trong prompt ở server
+const DEFAULT_CATEGORIES: TaxonomyCategory[] = [
+  {
+    id: "t1",
+    label: "角色与演员表现",
+    description:
+      "观众对主要人物（孙悟空、唐僧、猪八戒、沙僧、白龙马等）的评价，以及对演员表现的点评",
+    keywords: [
+      "孙悟空",
+      "唐僧",
+      "猪八戒",
+      "沙僧",
+      "白龙马",
+      "演员",
+      "演技",
+      "表演",
+      "配角",
+      "扮演",
+      "塑造",
+      "魅力",
+      "生动",
+    ],
+    examples: ["孙悟空太厉害了", "六小龄童演得真好"],
+  },
+  {
+    id: "t2",
+    label: "文化共鸣与道德价值",
+    description:
+      "涉及儒、释、道思想中的哲理与道德价值，反映观众对社会议题或文化共鸣的思考。讽刺或批评性评论不属于此类",
+    keywords: [
+      "善良",
+      "仁义",
+      "修行",
+      "信仰",
+      "智慧",
+      "道德",
+      "教育",
+      "哲理",
+      "人生",
+      "价值观",
+      "文化",
+      "传统",
+      "思想",
+    ],
+    examples: ["体现了仁义礼智信", "教育意义深刻", "传承中华文化"],
+  },
+  {
+    id: "t3",
+    label: "怀旧情感与童年回忆",
+    description: "表达对经典作品的强烈怀旧情绪、童年回忆或时光流逝的感慨",
+    keywords: [
+      "童年",
+      "回忆",
+      "怀念",
+      "小时候",
+      "长大",
+      "以前",
+      "那时候",
+      "永恒",
+      "时光",
+      "青春",
+      "记忆",
+      "感动",
+    ],
+    examples: ["小时候每年暑假必看", "满满的童年回忆", "陪伴我长大的经典"],
+  },
+  {
+    id: "t4",
+    label: "剧情与艺术价值",
+    description:
+      "对情节发展、拍摄技巧、音乐、特效、服装等艺术层面及制作水平的评价",
+    keywords: [
+      "剧情",
+      "情节",
+      "故事",
+      "艺术",
+      "制作",
+      "精良",
+      "画面",
+      "音乐",
+      "特效",
+      "服装",
+      "导演",
+      "精彩",
+    ],
+    examples: ["剧情紧凑精彩", "艺术价值极高", "配乐经典"],
+  },
+  {
+    id: "t5",
+    label: "语言与配音翻译",
+    description: "涉及配音效果、语言版本、字幕翻译、台词质量等语言表达问题",
+    keywords: [
+      "配音",
+      "声音",
+      "台词",
+      "翻译",
+      "字幕",
+      "普通话",
+      "粤语",
+      "方言",
+      "口音",
+      "越南语",
+    ],
+    examples: ["配音非常到位", "翻译很准确", "粤语版更有味道"],
+  },
+  {
+    id: "t6",
+    label: "版本对比与比较",
+    description:
+      "对1986版、2010版、电影版、动画版等不同版本或翻拍、改编作品的对比评价",
+    keywords: [
+      "1986",
+      "新版",
+      "老版",
+      "版本",
+      "翻拍",
+      "对比",
+      "不如",
+      "超越",
+      "原版",
+      "重拍",
+      "改编",
+    ],
+    examples: ["86版永远是经典", "新版不如老版", "比2010版好太多"],
+  },
+];
+
+export const createDefaultTaxonomy = (): Taxonomy => ({
+  id: DEFAULT_TAXONOMY_ID,
+  name: "Tây Du Ký (mặc định)",
+  versions: [
+    {
+      version: 1,
+      savedAt: "2025-01-01T00:00:00.000Z",
+      categories: cloneCategories(DEFAULT_CATEGORIES),
+    },
+  ],
+});
+
+export const createCategory = (): TaxonomyCategory => ({
+  id: createId(),
+  label: "",
+  description: "",
+  keywords: [],
+  examples: [],
+});
+
+// Bộ chủ đề mới / nhân bản: bắt đầu lại từ phiên bản 1
+export const createTaxonomy = (
+  name: string,
+  categories: TaxonomyCategory[] = [createCategory()]
+): Taxonomy => ({
+  id: createId(),
+  name,
+  versions: [
+    {
+      version: 1,
+      savedAt: new Date().toISOString(),
+      categories: cloneCategories(categories),
+    },
+  ],
+});
+
+export const getLatestVersion = (taxonomy: Taxonomy) =>
+  taxonomy.versions[taxonomy.versions.length - 1]!;
+
+// Không truyền version → phiên bản mới nhất
+export const toTaxonomySnapshot = (
+  taxonomy: Taxonomy,
+  version?: number
+): TaxonomySnapshot => {
+  const selected =
+    taxonomy.versions.find((v) => v.version === version) ||
+    getLatestVersion(taxonomy);
+  return {
+    id: taxonomy.id,
+    name: taxonomy.name,
+    version: selected.version,
+    savedAt: selected.savedAt,
+    categories: cloneCategories(selected.categories),
+  };
+};
+
+// Bỏ khoảng trắng thừa + mục rỗng trước khi lưu
+export const cleanCategories = (
+  categories: TaxonomyCategory[]
+): TaxonomyCategory[] =>
+  categories.map((category) => ({
+    id: category.id,
+    label: category.label.trim(),
+    description: category.description.trim(),
+    keywords: category.keywords.map((k) => k.trim()).filter(Boolean),
+    examples: category.examples.map((e) => e.trim()).filter(Boolean),
+  }));
+
+// Lỗi đầu tiên (tiếng Việt) hoặc null nếu hợp lệ - server kiểm tra lại
+export const validateCategories = (
+  categories: TaxonomyCategory[]
+): string | null => {
+  if (categories.length === 0) return "Bộ chủ đề cần ít nhất 1 chủ đề";
+  if (categories.length > MAX_TAXONOMY_CATEGORIES) {
+    return `Tối đa ${MAX_TAXONOMY_CATEGORIES} chủ đề`;
+  }
+
+  const labels = new Set<string>();
+  for (const [index, category] of categories.entries()) {
+    const label = category.label.trim();
+    if (!label) return `Chủ đề #${index + 1} chưa có tên`;
+    if (label === UNCATEGORIZED_LABEL) {
+      return `"${UNCATEGORIZED_LABEL}" là nhãn dành riêng`;
+    }
+    if (labels.has(label)) return `Trùng tên chủ đề "${label}"`;
+    labels.add(label);
+  }
+  return null;
+};
+
+export const isSameCategories = (
+  a: TaxonomyCategory[],
+  b: TaxonomyCategory[]
+) => JSON.stringify(cleanCategories(a)) === JSON.stringify(cleanCategories(b));
+
+// Ô nhập từ khoá: phân tách bằng dấu phẩy (cả dấu phẩy tiếng Trung)
+export const splitKeywords = (value: string): string[] =>
+  value
+    .split(/[,，、]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
@@ -0,0 +1,205 @@
+// utils/toxicity.ts
+import type {
+  ToxicLexicon,
+  ToxicSeverity,
+  ToxicityMode,
+} from "../types/comment";
+import { foldDiacritics } from "./normalize";
+
+// Lọc từ ngữ thô tục / xúc phạm theo danh sách từ (chạy offline, không gọi
+// API). Danh sách sửa được trong bộ lọc, mỗi từ có mức độ nhẹ / nặng
+
+export const TOXICITY_MODE_LABELS: Record<ToxicityMode, string> = {
+  off: "Tắt",
+  remove: "Loại bỏ comment",
+  mask: "Giữ, che từ vi phạm",
+};
+
+export const TOXIC_SEVERITY_LABELS: Record<ToxicSeverity, string> = {
+  mild: "Nhẹ",
+  severe: "Nặng",
+};
+
+const SEVERITY_ORDER: ToxicSeverity[] = ["mild", "severe"];
+
+export const DEFAULT_TOXIC_LEXICON: ToxicLexicon = {
+  vi: {
+    mild: [
+      "vl",
+      "vcl",
+      "vkl",
+      "ngu",
+      "ngu học",
+      "óc chó",
+      "đần độn",
+      "mất dạy",
+      "bố láo",
+      "láo toét",
+      "đéo",
+      "đếch",
+      "hãm",
+    ],
+    severe: [
+      "đm",
+      "dm",
+      "đmm",
+      "dmm",
+      "đcm",
+      "dcm",
+      "địt",
+      "đụ",
+      "lồn",
+      "loz",
+      "cặc",
+      "đĩ",
+      "súc vật",
+      "chó chết",
+      "đồ chó",
+      "thằng chó",
+      "mẹ mày",
+      "clgt",
+    ],
+  },
+  zh: {
+    mild: ["废物", "脑残", "白痴", "蠢货", "神经病"],
+    severe: [
+      "傻逼",
+      "傻b",
+      "他妈的",
+      "妈的",
+      "操你",
+      "草你妈",
+      "贱人",
+      "去死",
+      "狗日的",
+      "王八蛋",
+    ],
+  },
+};
+
+export const cloneToxicLexicon = (lexicon: ToxicLexicon): ToxicLexicon => ({
+  vi: { mild: [...lexicon.vi.mild], severe: [...lexicon.vi.severe] },
+  zh: { mild: [...lexicon.zh.mild], severe: [...lexicon.zh.severe] },
+});
+
+// ---- Biên dịch từ → regex chịu được cách viết né lọc ----
+
+// Ký tự chen giữa các chữ ("đ.m", "n-g-u", "傻*逼")
+const SEPARATOR = "[._\\-*|~'`·]*";
+const WORD_GAP = "[\\s._\\-*|~'`·]+";
+
+const LEET: Record<string, string> = {
+  a: "4@",
+  e: "3",
+  i: "1!",
+  o: "0",
+  s: "5$",
+  t: "7",
+};
+
+const escapeRegex = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Từ ngắn (<= 3 chữ) phải đúng dấu: "cặc" không khớp "các" / "cac".
+// Từ dài hơn cho phép viết không dấu: "súc vật" khớp "suc vat" nhưng không
+// khớp dấu khác ("buồi" không khớp "buổi")
+const charPattern = (char: string, allowBare: boolean): string => {
+  const base = foldDiacritics(char);
+  const options = new Set([char, ...(LEET[base] || "")]);
+  if (allowBare) options.add(base);
+  return `[${escapeRegex(Array.from(options).join(""))}]+`;
+};
+
+const termPattern = (term: string, language: "vi" | "zh"): string => {
+  const normalized = term.normalize("NFC").toLowerCase().trim();
+  if (language === "zh") {
+    return Array.from(normalized)
+      .map((char) => (/\s/.test(char) ? WORD_GAP : escapeRegex(char)))
+      .join(SEPARATOR);
+  }
+
+  const allowBare = foldDiacritics(normalized).replace(/\s/g, "").length > 3;
+  const words = normalized.split(/\s+/).map((word) =>
+    Array.from(word)
+      .map((char) =>
+        /\p{L}/u.test(char) ? charPattern(char, allowBare) : escapeRegex(char)
+      )
+      .join(SEPARATOR)
+  );
+  // Khớp nguyên từ: không dính chữ / số trước và sau
+  return `(?<![\\p{L}\\p{N}])${words.join(WORD_GAP)}(?![\\p{L}\\p{N}])`;
+};
+
+interface CompiledLexicon {
+  patterns: Array<{ severity: ToxicSeverity; regex: RegExp }>;
+}
+
+const compiledCache = new Map<string, CompiledLexicon>();
+
+const compileLexicon = (
+  lexicon: ToxicLexicon,
+  minSeverity: ToxicSeverity
+): CompiledLexicon => {
+  const key = JSON.stringify([lexicon, minSeverity]);
+  const cached = compiledCache.get(key);
+  if (cached) return cached;
+
+  const severities = SEVERITY_ORDER.slice(SEVERITY_ORDER.indexOf(minSeverity));
+  const patterns = severities.flatMap((severity) => {
+    const terms = (["vi", "zh"] as const).flatMap((language) =>
+      lexicon[language][severity]
+        .filter((term) => term.trim())
+        // Từ dài trước để "đmm" không bị cắt thành "đm"
+        .sort((a, b) => b.length - a.length)
+        .map((term) => termPattern(term, language))
+    );
+    return terms.length > 0
+      ? [{ severity, regex: new RegExp(terms.join("|"), "giu") }]
+      : [];
+  });
+
+  const compiled = { patterns };
+  // Danh sách do người dùng sửa → giới hạn cache
+  if (compiledCache.size > 20) compiledCache.clear();
+  compiledCache.set(key, compiled);
+  return compiled;
+};
+
+export interface ToxicMatch {
+  text: string;
+  severity: ToxicSeverity;
+}
+
+export const findToxicTerms = (
+  text: string,
+  lexicon: ToxicLexicon,
+  minSeverity: ToxicSeverity = "mild"
+): ToxicMatch[] => {
+  const normalized = text.normalize("NFC");
+  return compileLexicon(lexicon, minSeverity).patterns.flatMap(
+    ({ severity, regex }) =>
+      Array.from(normalized.matchAll(regex), (match) => ({
+        text: match[0],
+        severity,
+      }))
+  );
+};
+
+// Giữ ký tự đầu, còn lại thay bằng "*" ("đ**", "傻*")
+const maskWord = (word: string) => {
+  const [first = "", ...rest] = Array.from(word);
+  return first + rest.map((char) => (/\s/.test(char) ? char : "*")).join("");
+};
+
+// Hàm che từ vi phạm trên plain text - dùng cho hiển thị và export
+export const createToxicityMasker = (
+  lexicon: ToxicLexicon,
+  minSeverity: ToxicSeverity = "mild"
+) => {
+  const { patterns } = compileLexicon(lexicon, minSeverity);
+  return (text: string): string =>
+    patterns.reduce(
+      (result, { regex }) => result.replace(regex, maskWord),
+      text.normalize("NFC")
+    );
+};
@@ -0,0 +1,63 @@
+// utils/translation.ts
+import type {
+  TranslationLanguage,
+  TranslationOptions,
+  TranslationSource,
+} from "../types/translation";
+import { LANGUAGE_LABELS } from "./language";
+
+export const TRANSLATION_LANGUAGES: TranslationLanguage[] = [
+  "vi",
+  "zh",
+  "en",
+  "th",
+  "ja",
+  "ko",
+];
+
+export const TRANSLATION_SOURCE_LABELS: Record<TranslationSource, string> = {
+  auto: "Tự nhận diện",
+  ...LANGUAGE_LABELS,
+};
+
+// Tiêu đề cột bản dịch trong bảng + file export (giữ "中文 (Tiếng Trung)"
+// như file export cũ)
+export const TRANSLATION_COLUMN_LABELS: Record<TranslationLanguage, string> = {
+  vi: "Tiếng Việt",
+  zh: "中文 (Tiếng Trung)",
+  en: "English (Tiếng Anh)",
+  th: "ไทย (Tiếng Thái)",
+  ja: "日本語 (Tiếng Nhật)",
+  ko: "한국어 (Tiếng Hàn)",
+};
+
+export const DEFAULT_TRANSLATION_OPTIONS: TranslationOptions = {
+  source: "vi",
+  targets: ["zh"],
+};
+
+// Tên cột nội dung được nhận trong file Excel (so khớp không phân biệt hoa
+// thường) - "Nội dung cmt" là cột của file export từ tab Crawl
+export const CONTENT_COLUMN_NAMES = [
+  "Nội dung cmt",
+  "Nội dung",
+  "Content",
+  "Comment",
+  "评论内容",
+  "内容",
+];
+
+export const sourceColumnLabel = (source: TranslationSource): string =>
+  source === "auto" ? "Nội dung gốc" : TRANSLATION_COLUMN_LABELS[source];
+
+// Nguồn cố định thì không dịch sang chính nó
+export const getEffectiveTargets = ({
+  source,
+  targets,
+}: TranslationOptions): TranslationLanguage[] =>
+  TRANSLATION_LANGUAGES.filter(
+    (code) => targets.includes(code) && code !== source
+  );
+
+export const describeTargets = (targets: TranslationLanguage[]): string =>
+  targets.map((code) => LANGUAGE_LABELS[code].toLowerCase()).join(", ");
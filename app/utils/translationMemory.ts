@@ -0,0 +1,87 @@
+// utils/translationMemory.ts
+import type {
+  TranslationLanguage,
+  TranslationMemoryEntry,
+  TranslationMemoryFile,
+  TranslationSource,
+} from "../types/translation";
+import { normalizeText } from "./normalize";
+import { TRANSLATION_LANGUAGES } from "./translation";
+
+export const TRANSLATION_MEMORY_FORMAT = "yt-cmt-filter/translation-memory";
+export const TRANSLATION_MEMORY_VERSION = 1;
+
+// Chỉ gộp khác biệt không đổi nghĩa: hoa / thường, khoảng trắng, dạng
+// Unicode. Không bỏ dấu - "tại" và "tải" dịch khác nhau
+export const normalizeMemoryText = (text: string): string =>
+  normalizeText(text, {});
+
+export const translationMemoryKey = ({
+  model,
+  source,
+  target,
+  text,
+}: Pick<TranslationMemoryEntry, "model" | "source" | "target" | "text">) =>
+  `${model}|${source}>${target}|${text}`;
+
+const isTarget = (value: unknown): value is TranslationLanguage =>
+  TRANSLATION_LANGUAGES.includes(value as TranslationLanguage);
+
+const isSource = (value: unknown): value is TranslationSource =>
+  value === "auto" || isTarget(value);
+
+export const createTranslationMemoryFile = (
+  entries: TranslationMemoryEntry[]
+): TranslationMemoryFile => ({
+  format: TRANSLATION_MEMORY_FORMAT,
+  version: TRANSLATION_MEMORY_VERSION,
+  exportedAt: new Date().toISOString(),
+  entries,
+});
+
+// Đọc file export - mục sai cấu trúc bị bỏ qua, câu nguồn chuẩn hoá lại
+// (file có thể sửa tay). Sai định dạng → ném lỗi tiếng Việt cho UI
+export const parseTranslationMemoryFile = (
+  json: string
+): TranslationMemoryEntry[] => {
+  let data: Partial<TranslationMemoryFile>;
+  try {
+    data = JSON.parse(json) as Partial<TranslationMemoryFile>;
+  } catch {
+    throw new Error("File bộ nhớ dịch không phải JSON hợp lệ");
+  }
+
+  if (
+    data?.format !== TRANSLATION_MEMORY_FORMAT ||
+    !Array.isArray(data.entries)
+  ) {
+    throw new Error("File không phải bộ nhớ dịch xuất từ ứng dụng này");
+  }
+  if ((data.version ?? 0) > TRANSLATION_MEMORY_VERSION) {
+    throw new Error("File bộ nhớ dịch được tạo bởi phiên bản mới hơn");
+  }
+
+  return data.entries.flatMap((entry) => {
+    const text = normalizeMemoryText(String(entry?.text ?? ""));
+    const translation = String(entry?.translation ?? "");
+    if (
+      !text ||
+      !translation ||
+      !entry.model ||
+      !isSource(entry.source) ||
+      !isTarget(entry.target)
+    ) {
+      return [];
+    }
+    return [
+      {
+        source: entry.source,
+        target: entry.target,
+        model: String(entry.model),
+        text,
+        translation,
+        updatedAt: String(entry.updatedAt || new Date().toISOString()),
+      },
+    ];
+  });
+};
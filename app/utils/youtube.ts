@@ -1,11 +1,92 @@
 // utils/youtube.ts
+import type { CrawlTarget } from "../types/crawl";
+
+// watch?v=, youtu.be, Shorts, live, embed (kể cả m./music./nocookie)
+const VIDEO_URL_REGEX =
+  /(?:youtube(?:-nocookie)?\.com\/(?:watch\?(?:[^#\s]*&)?v=|shorts\/|live\/|embed\/|v\/)|youtu\.be\/)([\w-]{11})/;
+const VIDEO_ID_REGEX = /^[\w-]{11}$/;
+const PLAYLIST_URL_REGEX = /youtube\.com\/playlist\?(?:[^#\s]*&)?list=([\w-]+)/;
+const CHANNEL_ID_REGEX = /youtube\.com\/channel\/(UC[\w-]{22})/;
+const CHANNEL_HANDLE_REGEX = /(?:youtube\.com\/)?(@[\w.-]+)/;
+// /user/ là username cũ (forUsername); /c/ là custom URL - không phải
+// username, tra theo @handle cùng tên (đa số custom URL đã thành handle)
+const CHANNEL_USER_REGEX = /youtube\.com\/user\/([\w.-]+)/;
+const CHANNEL_CUSTOM_REGEX = /youtube\.com\/c\/([\w.-]+)/;
 
 export const extractVideoId = (url: string): string | null => {
-  const regex = /(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&\n?#]+)/;
-  const match = url.match(regex);
-  return match ? match[1] : null;
+  const trimmed = url.trim();
+  const match = trimmed.match(VIDEO_URL_REGEX);
+  if (match?.[1]) return match[1];
+
+  // Cho phép dán trực tiếp video ID
+  return VIDEO_ID_REGEX.test(trimmed) ? trimmed : null;
 };
 
+// Phân tích một dòng input thành video / playlist / channel
+export const parseYouTubeTarget = (input: string): CrawlTarget | null => {
+  const url = input.trim();
+  if (!url) return null;
+
+  const playlistId = url.match(PLAYLIST_URL_REGEX)?.[1];
+  if (playlistId) return { type: "playlist", id: playlistId, url };
+
+  const videoId = extractVideoId(url);
+  if (videoId) return { type: "video", id: videoId, url };
+
+  const channelId = url.match(CHANNEL_ID_REGEX)?.[1];
+  if (channelId) return { type: "channel", id: channelId, url };
+
+  const username = url.match(CHANNEL_USER_REGEX)?.[1];
+  if (username) return { type: "channel", username, url };
+
+  const customName = url.match(CHANNEL_CUSTOM_REGEX)?.[1];
+  if (customName) return { type: "channel", handle: `@${customName}`, url };
+
+  const handle = url.match(CHANNEL_HANDLE_REGEX)?.[1];
+  if (handle && (url.startsWith("@") || /youtube\.com\/@/.test(url))) {
+    return { type: "channel", handle, url };
+  }
+
+  return null;
+};
+
+// Tách danh sách URL (mỗi dòng / dấu phẩy / khoảng trắng) - bỏ trùng
+export const parseYouTubeTargets = (
+  input: string
+): { targets: CrawlTarget[]; invalid: string[] } => {
+  const targets: CrawlTarget[] = [];
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+
+  input
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .forEach((part) => {
+      const target = parseYouTubeTarget(part);
+      if (!target) {
+        invalid.push(part);
+        return;
+      }
+
+      const key = `${target.type}:${
+        target.id || target.handle || target.username
+      }`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        targets.push(target);
+      }
+    });
+
+  return { targets, invalid };
+};
+
+export const isCustomChannelUrl = (url: string): boolean =>
+  CHANNEL_CUSTOM_REGEX.test(url);
+
 export const isValidYouTubeUrl = (url: string): boolean => {
-  return extractVideoId(url) !== null;
+  return parseYouTubeTarget(url) !== null;
+};
+
+export const buildVideoUrl = (videoId: string): string => {
+  return `https://www.youtube.com/watch?v=${videoId}`;
 };
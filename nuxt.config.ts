@@ -9,11 +9,37 @@ export default defineNuxtConfig({
   ui: {
     prefix: "Tobi",
   },
-  runtimeConfig: {
-    public: {
-      youtubeApiKey: "",
-      geminiApiKey: "",
+  // Fixture YouTube API cho chế độ record / replay (offline, không tốn quota)
+  nitro: {
+    storage: {
+      "youtube-fixtures": {
+        driver: "fs",
+        base: "./server/fixtures/youtube",
+      },
+    },
+    devStorage: {
+      "youtube-fixtures": {
+        driver: "fs",
+        base: "./server/fixtures/youtube",
+      },
     },
+  },
+  runtimeConfig: {
+    // Chỉ có ở server - client gọi qua server/api/*
+    youtubeApiKey: "",
+    // live | record | replay - xem server/utils/fixtures.ts
+    youtubeMode: "live",
+    geminiApiKey: "",
+    // LLM cho dịch / phân tích - xem server/utils/llm. Model dạng
+    // "<provider>:<model>", provider: gemini | openai | mock (offline)
+    llmModel: "gemini:gemini-2.0-flash",
+    geminiModels: "gemini-2.0-flash,gemini-2.5-flash",
+    // Endpoint tương thích OpenAI (vd. llama.cpp: http://localhost:8080/v1),
+    // openaiModels trống → lấy từ GET /models
+    openaiBaseUrl: "",
+    openaiApiKey: "",
+    openaiModels: "",
+    public: {},
     vite: {
       plugins: [tailwindcss()],
     },
@@ -0,0 +1,39 @@
+// server/api/gemini/classify.post.ts
+
+// Phân loại chủ đề theo bộ chủ đề client gửi kèm (AI chỉ trả về index)
+export default defineEventHandler(async (event) => {
+  const items = await readBatchItems(event);
+  const categories = await readTaxonomy(event);
+
+  // Ultra-compact: AI chỉ trả về category index
+  const prompt = `分类评论主题。JSON: [{"i":评论索引,"c":主题索引}]
+
+${buildTaxonomyPrompt(categories)}
+
+${items.map((c) => `[${c.index}] ${c.content}`).join("\n")}`;
+
+  const result = await generateLlmJson<Array<{ i: number; c: number }>>(event, {
+    prompt,
+    schema: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          i: { type: "number" }, // comment index
+          c: taxonomyIndexSchema(categories), // category index
+        },
+        required: ["i", "c"],
+      },
+    },
+    mockResponse: () =>
+      items.map((c) => ({
+        i: c.index,
+        c: mockPick(c.content, categories.length),
+      })),
+  });
+
+  return toResponseItems<{ i: number; c: number }>(result).map((r) => ({
+    index: r.i,
+    categoryName: taxonomyLabel(categories, r.c),
+  }));
+});
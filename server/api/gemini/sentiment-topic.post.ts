@@ -0,0 +1,59 @@
+// server/api/gemini/sentiment-topic.post.ts
+
+// Gộp Sentiment + Topic trong 1 API call theo bộ chủ đề client gửi kèm
+export default defineEventHandler(async (event) => {
+  const items = await readBatchItems(event);
+  const categories = await readTaxonomy(event);
+
+  // Ultra-compact: AI chỉ trả về index của category
+  const prompt = `分析评论情感和主题。JSON: [{"i":评论索引,"s":"情感","c":主题索引}]
+
+情感(s): "1"=积极, "0"=中性, "-1"=消极
+
+${buildTaxonomyPrompt(categories)}
+
+${items.map((c) => `[${c.index}] ${c.content}`).join("\n")}`;
+
+  const sentiments = ["1", "0", "-1"] as const;
+  const result = await generateLlmJson<
+    Array<{ i: number; s: (typeof sentiments)[number]; c: number }>
+  >(event, {
+    prompt,
+    schema: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          i: { type: "number" }, // comment index
+          s: {
+            type: "string", // sentiment
+            enum: sentiments,
+          },
+          c: taxonomyIndexSchema(categories), // category index
+        },
+        required: ["i", "s", "c"],
+      },
+    },
+    mockResponse: () =>
+      items.map((c) => ({
+        i: c.index,
+        s: sentiments[mockPick(c.content, sentiments.length)]!,
+        c: mockPick(`${c.content}#topic`, categories.length),
+      })),
+  });
+
+  // O(1) lookups - giá trị ngoài schema trả null, client kiểm tra và gửi lại
+  const sentimentMap: Record<string, "positive" | "neutral" | "negative"> = {
+    "1": "positive",
+    "0": "neutral",
+    "-1": "negative",
+  };
+
+  return toResponseItems<{ i: number; s: string; c: number }>(result).map(
+    (r) => ({
+      index: r.i,
+      sentiment: (r.s !== undefined && sentimentMap[r.s]) || null,
+      categoryName: taxonomyLabel(categories, r.c),
+    })
+  );
+});
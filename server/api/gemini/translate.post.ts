@@ -0,0 +1,82 @@
+// server/api/gemini/translate.post.ts
+
+// Dịch một batch comment từ 1 ngôn ngữ nguồn (hoặc tự nhận diện) sang một
+// hoặc nhiều ngôn ngữ đích trong cùng một lượt gọi
+const LANGUAGE_NAMES: Record<string, string> = {
+  vi: "Tiếng Việt",
+  zh: "中文 (简体)",
+  en: "English",
+  th: "ภาษาไทย",
+  ja: "日本語",
+  ko: "한국어",
+};
+
+export default defineEventHandler(async (event) => {
+  const items = await readBatchItems(event);
+  const body = await readBody<{ source?: string; targets?: string[] }>(event);
+
+  // Body cũ không có source / targets → Việt → Trung như trước
+  const source = body?.source || "vi";
+  const targets = body?.targets ?? ["zh"];
+  if (
+    (source !== "auto" && !LANGUAGE_NAMES[source]) ||
+    !Array.isArray(targets) ||
+    targets.length === 0 ||
+    targets.some((code) => !LANGUAGE_NAMES[code])
+  ) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: `Ngôn ngữ không hợp lệ - hỗ trợ: ${Object.keys(
+        LANGUAGE_NAMES
+      ).join(", ")}`,
+    });
+  }
+
+  // Compact prompt để giảm tokens (chỉ gửi index và content)
+  const from =
+    source === "auto" ? "tự nhận diện ngôn ngữ" : LANGUAGE_NAMES[source];
+  const to = targets.map((code) => `${code}=${LANGUAGE_NAMES[code]}`);
+  const example = targets.map((code) => `"${code}":"..."`).join(",");
+  const prompt = `Dịch (${from}) → ${to.join(", ")}. JSON: [{"i":idx,"t":{${example}}}]
+
+${items.map((c) => `[${c.index}] ${c.content}`).join("\n")}`;
+
+  const translations = await generateLlmJson<
+    Array<{ i: number; t: Record<string, string> }>
+  >(event, {
+    prompt,
+    schema: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          i: { type: "number" }, // Shortened from "index"
+          t: {
+            type: "object", // Bản dịch theo mã ngôn ngữ đích
+            properties: Object.fromEntries(
+              targets.map((code) => [code, { type: "string" }])
+            ),
+            required: targets,
+          },
+        },
+        required: ["i", "t"],
+      },
+    },
+    // Offline: giữ nguyên nội dung, đánh dấu để không nhầm với bản dịch
+    mockResponse: () =>
+      items.map((c) => ({
+        i: c.index,
+        t: Object.fromEntries(
+          targets.map((code) => [code, `[mock ${code}] ${c.content}`])
+        ),
+      })),
+  });
+
+  return toResponseItems<{
+    i: number;
+    t: Record<string, string>;
+  }>(translations).map((tr) => ({
+    index: tr.i,
+    translations: tr.t || {},
+  }));
+});
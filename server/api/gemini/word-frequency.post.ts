@@ -0,0 +1,66 @@
+// server/api/gemini/word-frequency.post.ts
+
+// Tần suất từ khoá trên mẫu comment tiếng Trung - ví dụ từ khoá lấy từ bộ
+// chủ đề của project (body.taxonomy), không gắn cứng theo một nội dung
+export default defineEventHandler(async (event) => {
+  const body = await readBody<{ comments?: string[] }>(event);
+  if (!Array.isArray(body?.comments)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "Body phải có dạng { comments: string[] }",
+    });
+  }
+  const comments = body.comments;
+  const categories = await readTaxonomy(event);
+
+  // Sample 200 comments thay vì 100 để đại diện tốt hơn
+  const sample = comments.length > 200 ? comments.slice(0, 200) : comments;
+
+  const prompt = `提取高频关键词，统计每个有效词汇的出现次数。JSON: [{"w":"词","n":次数}]
+
+要求：
+1. 删除评论中的标点符号、表情等无意义字符，以及对比较结果无特殊影响的停用词
+2. 使用中文断词，去除虚词（的、了、是、在、如"的""了""是"等），只保留有实际意义的关键词
+3. 只保留具有实际意义的关键词，避免"如""等"之类无意义词
+4. 统计每个有效词汇的出现次数，并计算其在总数词汇中的占比（%），从而识别最高频关键词
+5. 关键词应该是2-4个字的词组，具有明确含义
+
+${buildKeywordExamples(categories)}
+
+${sample.join("\n")}`;
+
+  const result = await generateLlmJson<Array<{ w: string; n: number }>>(event, {
+    prompt,
+    schema: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          w: { type: "string" }, // word
+          n: { type: "number" }, // count
+        },
+        required: ["w", "n"],
+      },
+    },
+    // Offline: đếm cặp chữ Hán liền nhau / từ Latin, lấy 30 từ nhiều nhất
+    mockResponse: () => {
+      const counts = new Map<string, number>();
+      for (const text of sample) {
+        const words =
+          text.match(/\p{Script=Han}{2}|[\p{L}\p{N}]{2,}/gu) || [];
+        words.forEach((w) => counts.set(w, (counts.get(w) || 0) + 1));
+      }
+      return [...counts]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 30)
+        .map(([w, n]) => ({ w, n }));
+    },
+  });
+
+  return toResponseItems<{ w: string; n: number }>(result)
+    .filter((r) => typeof r.w === "string" && typeof r.n === "number")
+    .map((r) => ({
+      word: r.w as string,
+      count: r.n as number,
+    }));
+});
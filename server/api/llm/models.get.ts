@@ -0,0 +1,9 @@
+// server/api/llm/models.get.ts
+
+// Model LLM đã cấu hình (chọn ở UI) + model mặc định của server
+export default defineEventHandler(async (event) => {
+  return {
+    models: await listLlmModels(event),
+    defaultModel: getDefaultLlmModel(event),
+  };
+});
@@ -0,0 +1,8 @@
+// server/api/youtube/channels.get.ts
+export default defineEventHandler((event) => {
+  return fetchYouTube(
+    event,
+    "channels",
+    pickQuery(event, ["id", "forHandle", "forUsername", "part"])
+  );
+});
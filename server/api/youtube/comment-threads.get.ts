@@ -0,0 +1,17 @@
+// server/api/youtube/comment-threads.get.ts
+export default defineEventHandler((event) => {
+  return fetchYouTube(
+    event,
+    "commentThreads",
+    pickQuery(event, [
+      "videoId",
+      "id",
+      "part",
+      "maxResults",
+      "pageToken",
+      "order",
+      "searchTerms",
+      "textFormat",
+    ])
+  );
+});
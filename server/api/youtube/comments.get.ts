@@ -0,0 +1,8 @@
+// server/api/youtube/comments.get.ts
+export default defineEventHandler((event) => {
+  return fetchYouTube(
+    event,
+    "comments",
+    pickQuery(event, ["parentId", "part", "maxResults", "pageToken"])
+  );
+});
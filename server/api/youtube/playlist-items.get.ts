@@ -0,0 +1,8 @@
+// server/api/youtube/playlist-items.get.ts
+export default defineEventHandler((event) => {
+  return fetchYouTube(
+    event,
+    "playlistItems",
+    pickQuery(event, ["playlistId", "part", "maxResults", "pageToken"])
+  );
+});
@@ -0,0 +1,8 @@
+// server/api/youtube/replay-session.delete.ts
+
+// Reset bộ đếm replay fixture (?session=, bỏ trống = mọi phiên)
+export default defineEventHandler((event) => {
+  const { session } = getQuery(event);
+  resetReplayCounters(session ? String(session) : undefined);
+  return { ok: true };
+});
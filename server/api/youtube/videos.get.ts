@@ -0,0 +1,4 @@
+// server/api/youtube/videos.get.ts
+export default defineEventHandler((event) => {
+  return fetchYouTube(event, "videos", pickQuery(event, ["id", "part"]));
+});
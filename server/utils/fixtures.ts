@@ -0,0 +1,143 @@
+// server/utils/fixtures.ts
+import type { H3Event } from "h3";
+
+// Fixture YouTube API cho chế độ record / replay (NUXT_YOUTUBE_MODE)
+// Mỗi file: server/fixtures/youtube/<resource>/<id>.json = FixtureEntry[]
+// - query: tham số phải khớp (ngoài id); pageToken luôn được so khớp
+// - responses: trả lần lượt theo số lần gọi, phần tử cuối lặp lại
+//   → mô phỏng 429 rồi thành công, 403 commentsDisabled / quotaExceeded...
+interface FixtureResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+interface FixtureEntry {
+  query: Record<string, string>;
+  responses: FixtureResponse[];
+}
+
+const FIXTURE_STORAGE = "youtube-fixtures";
+
+// Tham số định danh file fixture theo thứ tự ưu tiên
+const ID_PARAMS = [
+  "videoId",
+  "parentId",
+  "playlistId",
+  "id",
+  "forHandle",
+  "forUsername",
+];
+
+// Số lần đã phát mỗi entry theo phiên replay - để phát responses theo thứ
+// tự. Client gửi header x-replay-session (mỗi job crawl một phiên) → chạy
+// lại cùng input nhận đúng chuỗi response như lần đầu (429 rồi thành công...)
+const REPLAY_SESSION_HEADER = "x-replay-session";
+const MAX_REPLAY_SESSIONS = 50;
+const replaySessions = new Map<string, Map<string, number>>();
+
+const getReplayCounters = (event: H3Event): Map<string, number> => {
+  const session = getHeader(event, REPLAY_SESSION_HEADER) || "default";
+  let counters = replaySessions.get(session);
+  if (!counters) {
+    // Chỉ giữ các phiên gần nhất - phiên cũ nhất bị bỏ
+    if (replaySessions.size >= MAX_REPLAY_SESSIONS) {
+      replaySessions.delete(replaySessions.keys().next().value!);
+    }
+    counters = new Map();
+    replaySessions.set(session, counters);
+  }
+  return counters;
+};
+
+// Xoá bộ đếm của một phiên, bỏ trống = mọi phiên (kể cả "default" của
+// request không gửi header)
+export const resetReplayCounters = (session?: string) => {
+  if (session) replaySessions.delete(session);
+  else replaySessions.clear();
+};
+
+const fixtureKey = (resource: string, query: Record<string, string>) => {
+  const idParam = ID_PARAMS.find((param) => query[param]);
+  const id = idParam ? query[idParam]! : "_";
+  return {
+    key: `${resource}:${id.replace(/[^\w@.-]/g, "_")}.json`,
+    idParam,
+  };
+};
+
+const matchesEntry = (
+  entry: FixtureEntry,
+  query: Record<string, string>
+): boolean => {
+  if ((entry.query.pageToken || "") !== (query.pageToken || "")) {
+    return false;
+  }
+  return Object.entries(entry.query).every(
+    ([param, value]) => query[param] === value
+  );
+};
+
+// Phát lại response đã ghi - lỗi được trả về giống hệt fetchYouTube ở live
+export const replayYouTubeFixture = async <T>(
+  event: H3Event,
+  resource: string,
+  query: Record<string, string>
+): Promise<T> => {
+  const { key } = fixtureKey(resource, query);
+  const entries =
+    (await useStorage(FIXTURE_STORAGE).getItem<FixtureEntry[]>(key)) || [];
+  const entryIndex = entries.findIndex((entry) => matchesEntry(entry, query));
+  const entry = entries[entryIndex];
+
+  if (!entry || entry.responses.length === 0) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: "YouTube fixture not found",
+      message: `Không có fixture ${key} cho ${JSON.stringify(query)}`,
+    });
+  }
+
+  const replayCounters = getReplayCounters(event);
+  const counterKey = `${key}#${entryIndex}`;
+  const count = replayCounters.get(counterKey) || 0;
+  replayCounters.set(counterKey, count + 1);
+  const response =
+    entry.responses[Math.min(count, entry.responses.length - 1)]!;
+
+  Object.entries(response.headers || {}).forEach(([name, value]) =>
+    setResponseHeader(event, name, value)
+  );
+
+  const status = response.status || 200;
+  if (status >= 400) {
+    throw createError({
+      statusCode: status,
+      statusMessage: "YouTube API error",
+      message: `[replay] ${resource} ${status}`,
+      data: response.body,
+    });
+  }
+
+  return response.body as T;
+};
+
+// Ghi response live (kể cả lỗi) thành fixture - thay entry cùng query
+export const recordYouTubeFixture = async (
+  resource: string,
+  query: Record<string, string>,
+  response: FixtureResponse
+) => {
+  const { key, idParam } = fixtureKey(resource, query);
+  const storage = useStorage(FIXTURE_STORAGE);
+  const entryQuery = Object.fromEntries(
+    Object.entries(query).filter(([param]) => param !== idParam)
+  );
+
+  const entries = ((await storage.getItem<FixtureEntry[]>(key)) || []).filter(
+    (entry) => !matchesEntry(entry, query)
+  );
+  entries.push({ query: entryQuery, responses: [response] });
+
+  await storage.setItem(key, entries);
+};
@@ -0,0 +1,89 @@
+// server/utils/llm/gemini.ts
+import type { H3Event } from "h3";
+import { GoogleGenAI } from "@google/genai";
+import { splitList } from "./shared";
+import type { LlmJsonRequest, LlmProvider } from "./types";
+
+// Xoay vòng nhiều key (NUXT_GEMINI_API_KEY="key1,key2,...") để giãn rate limit
+let keyIndex = 0;
+
+const getApiKeys = (event: H3Event): string[] =>
+  splitList(useRuntimeConfig(event).geminiApiKey);
+
+const getNextApiKey = (event: H3Event): string => {
+  const keys = getApiKeys(event);
+
+  if (keys.length === 0) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: "Chưa cấu hình NUXT_GEMINI_API_KEY",
+    });
+  }
+
+  const key = keys[keyIndex % keys.length] as string;
+  keyIndex = (keyIndex + 1) % keys.length;
+  return key;
+};
+
+// 429 của Gemini không có header Retry-After, thời gian chờ nằm trong
+// RetryInfo của body lỗi ("retryDelay": "30s") - SDK đưa body vào message
+const getRetryDelaySeconds = (message?: string): number | null => {
+  const match = message?.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match?.[1] ? Math.ceil(Number(match[1])) : null;
+};
+
+// Gọi Gemini với response JSON theo schema
+// Giữ status của lỗi (429, 503...) + Retry-After để client quyết định retry
+export const geminiProvider: LlmProvider = {
+  id: "gemini",
+  label: "Gemini",
+
+  // Danh sách model cấu hình qua NUXT_GEMINI_MODELS, chỉ hiện khi có key
+  listModels: async (event) =>
+    getApiKeys(event).length > 0
+      ? splitList(useRuntimeConfig(event).geminiModels)
+      : [],
+
+  generateJson: async <T>(
+    event: H3Event,
+    model: string,
+    { prompt, schema }: LlmJsonRequest<T>
+  ): Promise<T> => {
+    const ai = new GoogleGenAI({
+      apiKey: getNextApiKey(event),
+    });
+
+    let text: string | undefined;
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+        },
+      });
+      text = response.text;
+    } catch (error: unknown) {
+      const err = error as { status?: number; message?: string };
+      const retryDelay = getRetryDelaySeconds(err.message);
+      if (retryDelay !== null) {
+        setResponseHeader(event, "retry-after", retryDelay);
+      }
+      throw createError({
+        statusCode: err.status || 502,
+        statusMessage: "Gemini API error",
+        message: err.message,
+      });
+    }
+
+    if (!text) {
+      throw createError({
+        statusCode: 502,
+        statusMessage: "Empty response from Gemini API",
+      });
+    }
+
+    return JSON.parse(text) as T;
+  },
+};
@@ -0,0 +1,98 @@
+// server/utils/llm/index.ts
+import type { H3Event } from "h3";
+import { geminiProvider } from "./gemini";
+import { mockProvider } from "./mock";
+import { openaiProvider } from "./openai";
+import type {
+  LlmJsonRequest,
+  LlmModelOption,
+  LlmProvider,
+  LlmProviderId,
+} from "./types";
+
+// Lớp provider chung cho mọi endpoint /api/gemini/*: endpoint chỉ dựng
+// prompt + schema, provider / model lấy theo model client gửi kèm body
+
+const PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  mock: mockProvider,
+};
+
+// "gemini:gemini-2.0-flash" → provider + model; không có tiền tố → Gemini
+const parseModelId = (id: string): { provider: LlmProvider; model: string } => {
+  const separator = id.indexOf(":");
+  const providerId = separator === -1 ? "gemini" : id.slice(0, separator);
+  const provider = PROVIDERS[providerId as LlmProviderId];
+  const model = id.slice(separator + 1);
+
+  if (!provider || !model) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: `Model không hợp lệ: ${id}`,
+    });
+  }
+  return { provider, model };
+};
+
+export const getDefaultLlmModel = (event: H3Event): string =>
+  String(useRuntimeConfig(event).llmModel || "gemini:gemini-2.0-flash");
+
+// Model đã cấu hình của mọi provider (mock luôn có)
+export const listLlmModels = async (
+  event: H3Event
+): Promise<LlmModelOption[]> => {
+  const groups = await Promise.all(
+    Object.values(PROVIDERS).map(async (provider) =>
+      (await provider.listModels(event)).map((model) => ({
+        id: `${provider.id}:${model}`,
+        provider: provider.id,
+        label: `${provider.label} · ${model}`,
+      }))
+    )
+  );
+  return groups.flat();
+};
+
+// Sinh JSON theo schema bằng model trong body ({ model }), bỏ trống → model
+// mặc định NUXT_LLM_MODEL
+export const generateLlmJson = async <T>(
+  event: H3Event,
+  request: LlmJsonRequest<T>
+): Promise<T> => {
+  const body = await readBody<{ model?: string }>(event);
+  const { provider, model } = parseModelId(
+    body?.model || getDefaultLlmModel(event)
+  );
+  return provider.generateJson(event, model, request);
+};
+
+// Phần tử object của phản hồi dạng mảng - model có thể bỏ qua schema (trả
+// object / null...). Phần tử hỏng bị bỏ, client gửi lại index còn thiếu
+export const toResponseItems = <T extends object>(
+  result: unknown
+): Partial<T>[] =>
+  Array.isArray(result)
+    ? result.filter(
+        (item): item is Partial<T> =>
+          typeof item === "object" && item !== null && !Array.isArray(item)
+      )
+    : [];
+
+// Body chung của các endpoint batch: [{ index, content }]
+export const readBatchItems = async (
+  event: H3Event
+): Promise<Array<{ index: number; content: string }>> => {
+  const body = await readBody<{
+    items?: Array<{ index: number; content: string }>;
+  }>(event);
+
+  if (!Array.isArray(body?.items)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "Body phải có dạng { items: [{ index, content }] }",
+    });
+  }
+
+  return body.items;
+};
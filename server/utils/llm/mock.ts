@@ -0,0 +1,46 @@
+// server/utils/llm/mock.ts
+import type { H3Event } from "h3";
+import type { LlmJsonRequest, LlmProvider } from "./types";
+
+// Provider giả lập chạy offline: không cần key / mạng, cùng input luôn ra
+// cùng kết quả - dùng để demo, chạy thử pipeline dịch / phân tích
+
+// Chọn ổn định một giá trị trong [0, count) theo nội dung (FNV-1a)
+export const mockPick = (text: string, count: number): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % count;
+};
+
+// Endpoint không khai báo mockResponse → giá trị rỗng đúng kiểu schema
+const emptyValue = (schema: Record<string, unknown>): unknown => {
+  switch (schema.type) {
+    case "array":
+      return [];
+    case "object":
+      return {};
+    case "string":
+      return "";
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+};
+
+export const mockProvider: LlmProvider = {
+  id: "mock",
+  label: "Mock (offline)",
+  listModels: async () => ["mock"],
+  generateJson: async <T>(
+    _event: H3Event,
+    _model: string,
+    { schema, mockResponse }: LlmJsonRequest<T>
+  ): Promise<T> => (mockResponse ? mockResponse() : (emptyValue(schema) as T)),
+};
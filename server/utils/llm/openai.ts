@@ -0,0 +1,132 @@
+// server/utils/llm/openai.ts
+import type { H3Event } from "h3";
+import { parseJsonText, splitList } from "./shared";
+import type { LlmJsonRequest, LlmProvider } from "./types";
+
+// Endpoint tương thích OpenAI Chat Completions: OpenAI, OpenRouter, server
+// tự host (llama.cpp, vLLM, Ollama...). NUXT_OPENAI_BASE_URL trỏ tới gốc
+// API, vd. "http://localhost:8080/v1"
+
+const SYSTEM_PROMPT =
+  "Chỉ trả lời bằng JSON hợp lệ theo schema, không giải thích.";
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+const getConfig = (event: H3Event) => {
+  const config = useRuntimeConfig(event);
+  return {
+    baseUrl: String(config.openaiBaseUrl || "").replace(/\/+$/, ""),
+    apiKey: String(config.openaiApiKey || ""),
+    models: splitList(config.openaiModels),
+  };
+};
+
+const authHeaders = (apiKey: string): Record<string, string> =>
+  apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+// Schema mảng ở top-level: một số server bọc lại thành { "items": [...] }
+const unwrapArray = (value: unknown, schema: Record<string, unknown>) => {
+  if (schema.type !== "array" || Array.isArray(value)) return value;
+  if (value && typeof value === "object") {
+    const array = Object.values(value).find(Array.isArray);
+    if (array) return array;
+  }
+  return value;
+};
+
+export const openaiProvider: LlmProvider = {
+  id: "openai",
+  label: "OpenAI-compatible",
+
+  // NUXT_OPENAI_MODELS trống → hỏi GET /models của server (llama.cpp, vLLM
+  // đều hỗ trợ); server không trả lời được thì coi như chưa cấu hình
+  listModels: async (event) => {
+    const { baseUrl, apiKey, models } = getConfig(event);
+    if (!baseUrl) return [];
+    if (models.length > 0) return models;
+
+    try {
+      const response = await $fetch<{ data?: Array<{ id: string }> }>(
+        `${baseUrl}/models`,
+        { headers: authHeaders(apiKey), timeout: 5000 }
+      );
+      return (response.data || []).map((model) => model.id);
+    } catch (error) {
+      console.warn("Không thể lấy danh sách model OpenAI-compatible:", error);
+      return [];
+    }
+  },
+
+  generateJson: async <T>(
+    event: H3Event,
+    model: string,
+    { prompt, schema }: LlmJsonRequest<T>
+  ): Promise<T> => {
+    const { baseUrl, apiKey } = getConfig(event);
+    if (!baseUrl) {
+      throw createError({
+        statusCode: 500,
+        statusMessage: "Chưa cấu hình NUXT_OPENAI_BASE_URL",
+      });
+    }
+
+    let response: ChatCompletionResponse;
+    try {
+      response = await $fetch<ChatCompletionResponse>(
+        `${baseUrl}/chat/completions`,
+        {
+          method: "POST",
+          headers: authHeaders(apiKey),
+          body: {
+            model,
+            temperature: 0,
+            messages: [
+              { role: "system", content: SYSTEM_PROMPT },
+              { role: "user", content: prompt },
+            ],
+            response_format: {
+              type: "json_schema",
+              json_schema: { name: "result", schema },
+            },
+          },
+        }
+      );
+    } catch (error: unknown) {
+      const err = error as {
+        response?: { status?: number; headers?: Headers };
+        data?: unknown;
+        message?: string;
+      };
+      // Chuyển tiếp Retry-After (số giây) cho scheduler phía client
+      const retryAfter = Number(err.response?.headers?.get("retry-after"));
+      if (retryAfter > 0) {
+        setResponseHeader(event, "retry-after", retryAfter);
+      }
+      throw createError({
+        statusCode: err.response?.status || 502,
+        statusMessage: "OpenAI-compatible API error",
+        message: err.message,
+        data: err.data,
+      });
+    }
+
+    const text = response.choices?.[0]?.message?.content;
+    if (!text) {
+      throw createError({
+        statusCode: 502,
+        statusMessage: "Empty response from OpenAI-compatible API",
+      });
+    }
+
+    try {
+      return unwrapArray(parseJsonText(text), schema) as T;
+    } catch {
+      throw createError({
+        statusCode: 502,
+        statusMessage: "OpenAI-compatible API trả về JSON không hợp lệ",
+      });
+    }
+  },
+};
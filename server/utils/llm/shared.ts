@@ -0,0 +1,14 @@
+// server/utils/llm/shared.ts
+
+// Danh sách cấu hình dạng "a,b,c" (runtimeConfig / biến môi trường)
+export const splitList = (value: unknown): string[] =>
+  String(value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Model local hay bọc JSON trong ```json ... ``` dù đã yêu cầu JSON thuần
+export const parseJsonText = <T>(text: string): T => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse((fenced?.[1] ?? text).trim()) as T;
+};
@@ -0,0 +1,33 @@
+// server/utils/llm/types.ts
+import type { H3Event } from "h3";
+
+export type LlmProviderId = "gemini" | "openai" | "mock";
+
+// Model chọn ở UI, dạng "<provider>:<model>" (vd. "gemini:gemini-2.0-flash",
+// "openai:qwen2.5-7b-instruct", "mock:mock")
+export interface LlmModelOption {
+  id: string;
+  provider: LlmProviderId;
+  label: string;
+}
+
+// Một lần gọi sinh JSON theo schema (OpenAPI subset như Gemini responseSchema)
+export interface LlmJsonRequest<T> {
+  prompt: string;
+  schema: Record<string, unknown>;
+  // Kết quả cố định của provider mock - mỗi endpoint tự dựng theo input để
+  // chạy offline vẫn ra dữ liệu hợp lệ
+  mockResponse?: () => T;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  // Rỗng = provider chưa cấu hình, không hiện trong danh sách model
+  listModels: (event: H3Event) => Promise<string[]>;
+  generateJson: <T>(
+    event: H3Event,
+    model: string,
+    request: LlmJsonRequest<T>
+  ) => Promise<T>;
+}
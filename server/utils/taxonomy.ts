@@ -0,0 +1,102 @@
+// server/utils/taxonomy.ts
+import type { H3Event } from "h3";
+
+// Bộ chủ đề do client gửi kèm body ({ taxonomy: { categories } }) - prompt
+// và schema phân loại dựng động, AI chỉ trả về index chủ đề
+
+export interface TaxonomyCategoryInput {
+  label: string;
+  description: string;
+  keywords: string[];
+  examples: string[];
+}
+
+const MAX_CATEGORIES = 30;
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.map((item) => String(item ?? "").trim()).filter(Boolean)
+    : [];
+
+export const readTaxonomy = async (
+  event: H3Event
+): Promise<TaxonomyCategoryInput[]> => {
+  const body = await readBody<{
+    taxonomy?: { categories?: Array<Partial<TaxonomyCategoryInput>> };
+  }>(event);
+  const raw = body?.taxonomy?.categories;
+
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_CATEGORIES) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: `Body phải có taxonomy.categories (1-${MAX_CATEGORIES} chủ đề)`,
+    });
+  }
+
+  const categories = raw.map((category) => ({
+    label: String(category?.label ?? "").trim(),
+    description: String(category?.description ?? "").trim(),
+    keywords: toStringList(category?.keywords),
+    examples: toStringList(category?.examples),
+  }));
+
+  const labels = new Set(categories.map((c) => c.label));
+  if (labels.has("") || labels.size !== categories.length) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "Tên chủ đề không được trống hoặc trùng nhau",
+    });
+  }
+
+  return categories;
+};
+
+// Tiêu chí từng chủ đề trong prompt: "0=tên / 特征 / 关键词 / 实例评论"
+export const buildTaxonomyPrompt = (
+  categories: TaxonomyCategoryInput[]
+): string => {
+  const last = categories.length - 1;
+  const blocks = categories.map((category, index) =>
+    [
+      `${index}=${category.label}`,
+      category.description && `特征：${category.description}`,
+      category.keywords.length > 0 &&
+        `关键词：${category.keywords.join("、")}`,
+      category.examples.length > 0 &&
+        `实例评论：${category.examples.map((e) => `"${e}"`).join("、")}`,
+    ]
+      .filter(Boolean)
+      .join("\n")
+  );
+  return `主题分类标准（0-${last}，选择最匹配的一个）:\n\n${blocks.join("\n\n")}`;
+};
+
+// Ví dụ loại từ khoá cho prompt tần suất từ: từ khoá của từng chủ đề
+// trong bộ đang dùng (bỏ trống nếu không chủ đề nào có từ khoá)
+export const buildKeywordExamples = (
+  categories: TaxonomyCategoryInput[]
+): string => {
+  const lines = categories
+    .filter((category) => category.keywords.length > 0)
+    .map(
+      (category) =>
+        `- ${category.label}：${category.keywords.slice(0, 8).join("、")}`
+    );
+  return lines.length > 0
+    ? `示例需要提取的关键词类型：\n${lines.join("\n")}`
+    : "";
+};
+
+// Schema index chủ đề: [0, số chủ đề - 1]
+export const taxonomyIndexSchema = (categories: TaxonomyCategoryInput[]) => ({
+  type: "number",
+  minimum: 0,
+  maximum: categories.length - 1,
+});
+
+// Index ngoài khoảng (model bỏ qua schema) → null để client gửi lại
+export const taxonomyLabel = (
+  categories: TaxonomyCategoryInput[],
+  index: number | undefined
+): string | null =>
+  index === undefined ? null : (categories[index]?.label ?? null);
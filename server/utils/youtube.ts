@@ -0,0 +1,83 @@
+// server/utils/youtube.ts
+import type { H3Event } from "h3";
+
+const YOUTUBE_API_BASE = "https://www.googleapis.com/youtube/v3";
+
+// Chỉ chuyển tiếp các tham số được phép từ query của client
+export const pickQuery = (
+  event: H3Event,
+  allowed: string[]
+): Record<string, string> => {
+  const query = getQuery(event);
+  const picked: Record<string, string> = {};
+
+  allowed.forEach((key) => {
+    const value = query[key];
+    if (value !== undefined && value !== null && value !== "") {
+      picked[key] = String(value);
+    }
+  });
+
+  return picked;
+};
+
+// Gọi YouTube Data API với key giữ ở server (runtimeConfig private)
+// Lỗi từ Google giữ nguyên status + body (data) để client phân biệt
+// commentsDisabled / hết quota như khi gọi trực tiếp
+// youtubeMode: "live" (mặc định) | "record" (live + ghi fixture) |
+// "replay" (chỉ đọc fixture, không cần key / mạng) - xem utils/fixtures.ts
+export const fetchYouTube = async <T>(
+  event: H3Event,
+  resource: string,
+  query: Record<string, string>
+): Promise<T> => {
+  const { youtubeApiKey, youtubeMode } = useRuntimeConfig(event);
+  if (youtubeMode === "replay") {
+    return replayYouTubeFixture<T>(event, resource, query);
+  }
+
+  if (!youtubeApiKey) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: "Chưa cấu hình NUXT_YOUTUBE_API_KEY",
+    });
+  }
+
+  const record = youtubeMode === "record";
+
+  try {
+    const response = await $fetch<T>(`${YOUTUBE_API_BASE}/${resource}`, {
+      query: { ...query, key: youtubeApiKey },
+    });
+    if (record) {
+      await recordYouTubeFixture(resource, query, { body: response });
+    }
+    // Kiểu route suy từ Nitro không gán được về T generic → ép kiểu
+    return response as T;
+  } catch (error: unknown) {
+    const err = error as {
+      response?: { status?: number; headers?: Headers };
+      data?: unknown;
+      message?: string;
+    };
+    // Chuyển tiếp Retry-After (số giây) cho scheduler phía client
+    const retryAfter = Number(err.response?.headers?.get("retry-after"));
+    if (retryAfter > 0) {
+      setResponseHeader(event, "retry-after", retryAfter);
+    }
+    if (record && err.response?.status) {
+      await recordYouTubeFixture(resource, query, {
+        status: err.response.status,
+        headers:
+          retryAfter > 0 ? { "retry-after": String(retryAfter) } : undefined,
+        body: err.data,
+      });
+    }
+    throw createError({
+      statusCode: err.response?.status || 502,
+      statusMessage: "YouTube API error",
+      message: err.message,
+      data: err.data,
+    });
+  }
+};